@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../lib/MpcCore.sol";
+
+// Never deployed: its creation code is run with eth_call from an account and returns PROBE encrypted with the user key
+// the network holds for that account. Decrypting it tells whether a stored user key was onboarded on this chain.
+contract UserKeyProbe {
+
+    uint64 constant PROBE = 0xC071;
+
+    constructor() {
+        ctUint64 ct = MpcCore.offBoardToUser(MpcCore.setPublic64(PROBE), msg.sender);
+
+        // Returned as the runtime code, the leading zero byte keeps it from starting with 0xEF (EIP-3541)
+        bytes memory code = abi.encodePacked(bytes1(0x00), ctUint64.unwrap(ct));
+        assembly {
+            return(add(code, 32), mload(code))
+        }
+    }
+}
@@ -196,7 +196,10 @@ contract ConfidentialAuction {
     }
 
     modifier onlyContractOwner() {
-        require(msg.sender == contractOwner);
+        require(
+            msg.sender == contractOwner,
+            "ConfidentialAuction: caller is not the contract owner"
+        );
         _;
     }
 }
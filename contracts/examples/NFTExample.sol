@@ -43,11 +43,7 @@ contract NFTExample is
         ctUint64 _itTokenURI,
         bytes calldata _itSignature
     ) public {
-        _requireOwned(tokenId);
-        address owner = _ownerOf(tokenId);
-        if (msg.sender != owner) {
-            revert ERC721IncorrectOwner(msg.sender, tokenId, owner);
-        }
+        address owner = _requireSenderIsOwner(tokenId);
 
         itUint64 memory it;
         it.ciphertext = _itTokenURI;
@@ -56,6 +52,44 @@ contract NFTExample is
         _setTokenURI(owner, tokenId, MpcCore.validateCiphertext(it));
     }
 
+    // Sets a URI split into 64-bit words, each one encrypted and signed on its own
+    function setTokenURIWords(
+        uint256 tokenId,
+        ctUint64[] calldata _itTokenURIWords,
+        bytes[] calldata _itSignatures
+    ) public {
+        require(
+            _itTokenURIWords.length == _itSignatures.length,
+            "setTokenURIWords: words and signatures lengths differ"
+        );
+        // checked again by _setTokenURIWords, here before paying for the validation of every word
+        require(
+            _itTokenURIWords.length <= MAX_TOKEN_URI_WORDS,
+            "ConfidentialERC721URIStorage: too many URI words"
+        );
+        address owner = _requireSenderIsOwner(tokenId);
+
+        gtUint64[] memory words = new gtUint64[](_itTokenURIWords.length);
+        for (uint256 i = 0; i < words.length; i++) {
+            itUint64 memory it;
+            it.ciphertext = _itTokenURIWords[i];
+            it.signature = _itSignatures[i];
+            words[i] = MpcCore.validateCiphertext(it);
+        }
+
+        _setTokenURIWords(owner, tokenId, words);
+    }
+
+    function _requireSenderIsOwner(
+        uint256 tokenId
+    ) private view returns (address owner) {
+        _requireOwned(tokenId);
+        owner = _ownerOf(tokenId);
+        if (msg.sender != owner) {
+            revert ERC721IncorrectOwner(msg.sender, tokenId, owner);
+        }
+    }
+
     function mint(address to) public onlyOwner {
         uint256 tokenId = _totalSupply;
         _mint(to, tokenId);
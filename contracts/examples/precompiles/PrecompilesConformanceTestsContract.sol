@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../../lib/MpcCore.sol";
+
+contract PrecompilesConformanceTestsContract {
+    // Stored instead of a result when the precompile call itself fails, results never exceed 64 bits
+    uint256 constant CALL_FAILED = type(uint256).max;
+
+    uint256[] results;
+
+    function getResults() public view returns (uint256[] memory) {
+        return results;
+    }
+
+    function setPublic(
+        MpcCore.MPC_TYPE mpcType,
+        uint256 value
+    ) internal returns (uint256) {
+        return
+            ExtendedOperations(MPC_PRECOMPILE).SetPublic(
+                bytes1(uint8(mpcType)),
+                value
+            );
+    }
+
+    // Calls a binary operation of the precompile (op is its selector, e.g. Add(bytes3,uint256,uint256))
+    // once per (lhs[i], rhs[i]) pair and stores the decrypted results in the same order.
+    // Operands are garbled with setPublic unless args marks them as public.
+    function binaryOpTest(
+        bytes4 op,
+        MpcCore.MPC_TYPE lhsType,
+        MpcCore.MPC_TYPE rhsType,
+        MpcCore.ARGS args,
+        MpcCore.MPC_TYPE resultType,
+        uint256[] calldata lhs,
+        uint256[] calldata rhs
+    ) public {
+        require(
+            lhs.length == rhs.length,
+            "binaryOpTest: lhs and rhs lengths differ"
+        );
+        delete results;
+
+        bytes3 metaData = MpcCore.combineEnumsToBytes3(lhsType, rhsType, args);
+        for (uint i = 0; i < lhs.length; i++) {
+            uint256 a = args == MpcCore.ARGS.LHS_PUBLIC
+                ? lhs[i]
+                : setPublic(lhsType, lhs[i]);
+            uint256 b = args == MpcCore.ARGS.RHS_PUBLIC
+                ? rhs[i]
+                : setPublic(rhsType, rhs[i]);
+
+            (bool success, bytes memory ret) = MPC_PRECOMPILE.call(
+                abi.encodeWithSelector(op, metaData, a, b)
+            );
+            if (!success || ret.length != 32) {
+                results.push(CALL_FAILED);
+                continue;
+            }
+
+            results.push(
+                ExtendedOperations(MPC_PRECOMPILE).Decrypt(
+                    bytes1(uint8(resultType)),
+                    abi.decode(ret, (uint256))
+                )
+            );
+        }
+    }
+}
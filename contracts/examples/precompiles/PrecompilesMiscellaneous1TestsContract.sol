@@ -14,6 +14,8 @@ contract PrecompilesMiscellaneous1TestsContract {
     bool muxRes;
     bool onboardRes;
 
+    event RandomSamples(uint64[] samples);
+
     function getRandom() public view returns (uint64) {
         return random;
     }
@@ -164,6 +166,56 @@ contract PrecompilesMiscellaneous1TestsContract {
         return random;
     }
 
+    function randomSample(
+        MpcCore.MPC_TYPE mpcType,
+        bool isBounded,
+        uint8 numBits
+    ) private returns (uint64) {
+        if (mpcType == MpcCore.MPC_TYPE.SBOOL_T) {
+            return MpcCore.decrypt(MpcCore.rand()) ? 1 : 0;
+        } else if (mpcType == MpcCore.MPC_TYPE.SUINT8_T) {
+            return
+                MpcCore.decrypt(
+                    isBounded
+                        ? MpcCore.randBoundedBits8(numBits)
+                        : MpcCore.rand8()
+                );
+        } else if (mpcType == MpcCore.MPC_TYPE.SUINT16_T) {
+            return
+                MpcCore.decrypt(
+                    isBounded
+                        ? MpcCore.randBoundedBits16(numBits)
+                        : MpcCore.rand16()
+                );
+        } else if (mpcType == MpcCore.MPC_TYPE.SUINT32_T) {
+            return
+                MpcCore.decrypt(
+                    isBounded
+                        ? MpcCore.randBoundedBits32(numBits)
+                        : MpcCore.rand32()
+                );
+        }
+        return
+            MpcCore.decrypt(
+                isBounded ? MpcCore.randBoundedBits64(numBits) : MpcCore.rand64()
+            );
+    }
+
+    // Emits count random values of the given type, bounded to numBits bits if isBounded is set.
+    // The values are emitted instead of stored so that large samples stay cheap.
+    function randomSamplesTest(
+        MpcCore.MPC_TYPE mpcType,
+        bool isBounded,
+        uint8 numBits,
+        uint count
+    ) public {
+        uint64[] memory samples = new uint64[](count);
+        for (uint i = 0; i < count; i++) {
+            samples[i] = randomSample(mpcType, isBounded, numBits);
+        }
+        emit RandomSamples(samples);
+    }
+
     function booleanTest(bool a, bool b, bool bit) public {
         gtBool aGT = MpcCore.setPublic(a);
         gtBool bGT = MpcCore.setPublic(b);
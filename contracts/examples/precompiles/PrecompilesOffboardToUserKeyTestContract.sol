@@ -13,10 +13,27 @@ contract PrecompilesOffboardToUserKeyTestContract {
     uint256 ct32;
     uint256 ct64;
 
+    // Ciphertexts of the bool, 8, 16, 32 and 64 bits values, in that order
+    uint256[5] userCTs;
+    uint256[5] networkCTs;
+    uint64[5] networkValues;
+
     function getCTs() public view returns (uint256, uint256, uint256, uint256) {
         return (ct8, ct16, ct32, ct64);
     }
 
+    function getUserCTs() public view returns (uint256[5] memory) {
+        return userCTs;
+    }
+
+    function getCombinedResults()
+        public
+        view
+        returns (uint256[5] memory, uint256[5] memory, uint64[5] memory)
+    {
+        return (userCTs, networkCTs, networkValues);
+    }
+
     function getUserKeyTest(
         bytes calldata signedEK,
         bytes calldata signature,
@@ -72,4 +89,74 @@ contract PrecompilesOffboardToUserKeyTestContract {
 
         return (ct8, ct16, ct32, ct64);
     }
+
+    // values holds the 8, 16, 32 and 64 bits values, each one has to fit its type
+    function offboardToUserAllTypesTest(
+        bool b,
+        uint64[4] calldata values,
+        address addr
+    ) public {
+        userCTs[0] = ctBool.unwrap(
+            MpcCore.offBoardToUser(MpcCore.setPublic(b), addr)
+        );
+        userCTs[1] = ctUint8.unwrap(
+            MpcCore.offBoardToUser(MpcCore.setPublic8(uint8(values[0])), addr)
+        );
+        userCTs[2] = ctUint16.unwrap(
+            MpcCore.offBoardToUser(MpcCore.setPublic16(uint16(values[1])), addr)
+        );
+        userCTs[3] = ctUint32.unwrap(
+            MpcCore.offBoardToUser(MpcCore.setPublic32(uint32(values[2])), addr)
+        );
+        userCTs[4] = ctUint64.unwrap(
+            MpcCore.offBoardToUser(MpcCore.setPublic64(values[3]), addr)
+        );
+    }
+
+    // offBoardCombined encrypts the same value for the network and for addr.
+    // The network ciphertext is onboarded and decrypted back to check it holds the value too.
+    function offboardCombinedTest(
+        bool b,
+        uint64[4] calldata values,
+        address addr
+    ) public {
+        utBool memory utB = MpcCore.offBoardCombined(MpcCore.setPublic(b), addr);
+        userCTs[0] = ctBool.unwrap(utB.userCiphertext);
+        networkCTs[0] = ctBool.unwrap(utB.ciphertext);
+        networkValues[0] = MpcCore.decrypt(MpcCore.onBoard(utB.ciphertext))
+            ? 1
+            : 0;
+
+        utUint8 memory ut8 = MpcCore.offBoardCombined(
+            MpcCore.setPublic8(uint8(values[0])),
+            addr
+        );
+        userCTs[1] = ctUint8.unwrap(ut8.userCiphertext);
+        networkCTs[1] = ctUint8.unwrap(ut8.ciphertext);
+        networkValues[1] = MpcCore.decrypt(MpcCore.onBoard(ut8.ciphertext));
+
+        utUint16 memory ut16 = MpcCore.offBoardCombined(
+            MpcCore.setPublic16(uint16(values[1])),
+            addr
+        );
+        userCTs[2] = ctUint16.unwrap(ut16.userCiphertext);
+        networkCTs[2] = ctUint16.unwrap(ut16.ciphertext);
+        networkValues[2] = MpcCore.decrypt(MpcCore.onBoard(ut16.ciphertext));
+
+        utUint32 memory ut32 = MpcCore.offBoardCombined(
+            MpcCore.setPublic32(uint32(values[2])),
+            addr
+        );
+        userCTs[3] = ctUint32.unwrap(ut32.userCiphertext);
+        networkCTs[3] = ctUint32.unwrap(ut32.ciphertext);
+        networkValues[3] = MpcCore.decrypt(MpcCore.onBoard(ut32.ciphertext));
+
+        utUint64 memory ut64 = MpcCore.offBoardCombined(
+            MpcCore.setPublic64(values[3]),
+            addr
+        );
+        userCTs[4] = ctUint64.unwrap(ut64.userCiphertext);
+        networkCTs[4] = ctUint64.unwrap(ut64.ciphertext);
+        networkValues[4] = MpcCore.decrypt(MpcCore.onBoard(ut64.ciphertext));
+    }
 }
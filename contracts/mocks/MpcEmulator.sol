@@ -0,0 +1,336 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../lib/MpcInterface.sol";
+
+// Local stand-in for the gcEVM ExtendedOperations precompile.
+// The in-process Hardhat network cannot host native precompiles, so test-hardhat/util/mpc-emulator.ts installs the
+// runtime bytecode of this contract at MPC_PRECOMPILE (0x64) with hardhat_setCode.
+//
+// Emulation model:
+// - garbled values (gt) are the plain values, masked to the width of their MPC_TYPE
+// - network ciphertexts (OffBoard/OnBoard) are (pad ^ value) || r with pad = keccak256(seed, r), readable only here
+// - user ciphertexts (OffBoardToUser/ValidateCiphertext) use the same AES-128 scheme as the typescript sdk, so
+//   decryptValue/prepareIT work unchanged. User keys are derived from the seed: bytes16(keccak256(seed, address))
+// - Rand/RandBoundedBits draw from keccak256(seed, nonce), so every run is deterministic
+//
+// Limitation: the precompile cannot see the selector of the calling function, so ValidateCiphertext accepts a
+// signature made for any of the selectors registered through configure().
+contract MpcEmulator is ExtendedOperations {
+    bytes private constant SBOX =
+        hex"637c777bf26b6fc53001672bfed7ab76ca82c97dfa5947f0add4a2af9ca472c0b7fd9326363ff7cc34a5e5f171d8311504c723c31896059a071280e2eb27b27509832c1a1b6e5aa0523bd6b329e32f8453d100ed20fcb15b6acbbe394a4c58cfd0efaafb434d338545f9027f503c9fa851a3408f929d38f5bcb6da2110fff3d2cd0c13ec5f974417c4a77e3d645d197360814fdc222a908846eeb814de5e0bdbe0323a0a4906245cc2d3ac629195e479e7c8376d8dd54ea96c56f4ea657aae08ba78252e1ca6b4c6e8dd741f4bbd8b8a703eb5664803f60e613557b986c11d9ee1f8981169d98e949b1e87e9ce5528df8ca1890dbfe6426841992d0fb054bb16";
+
+    uint8 private constant SBOOL_T = 0;
+    uint8 private constant SUINT64_T = 4;
+
+    bytes32 public seed;
+    uint256 public nonce;
+    bytes4[] private selectors;
+
+    // Storage starts empty when the code is installed with hardhat_setCode, hence no constructor
+    function configure(bytes32 _seed, bytes4[] calldata _selectors) external {
+        seed = _seed;
+        nonce = 0;
+        selectors = _selectors;
+    }
+
+    function userKey(address user) public view returns (bytes16) {
+        return bytes16(keccak256(abi.encode(seed, user)));
+    }
+
+    // =========== Onboarding and offboarding ===========
+
+    function OnBoard(bytes1 metaData, uint256 ct) external view returns (uint256 result) {
+        if (ct == 0) {
+            // Uninitialized storage slots are treated as an encrypted zero
+            return 0;
+        }
+        uint256 r = uint128(ct);
+        return maskTo(uint8(metaData), (ct >> 128) ^ uint128(bytes16(keccak256(abi.encode(seed, r)))));
+    }
+
+    function OffBoard(bytes1 metaData, uint256 ct) external returns (uint256 result) {
+        uint256 r = nextRandom();
+        uint256 pad = uint128(bytes16(keccak256(abi.encode(seed, r))));
+        return (((pad ^ maskTo(uint8(metaData), ct)) << 128) | r);
+    }
+
+    function OffBoardToUser(bytes1 metaData, uint256 ct, bytes calldata addr) external returns (uint256 result) {
+        uint256 r = nextRandom();
+        uint256 pad = uint128(aesEncrypt(userKey(address(bytes20(addr))), bytes16(uint128(r))));
+        return (((pad ^ maskTo(uint8(metaData), ct)) << 128) | r);
+    }
+
+    function SetPublic(bytes1 metaData, uint256 ct) external pure returns (uint256 result) {
+        return maskTo(uint8(metaData), ct);
+    }
+
+    function ValidateCiphertext(
+        bytes1 metaData,
+        uint256 ciphertext,
+        bytes calldata signature
+    ) external view returns (uint256 result) {
+        require(signature.length == 65, "MpcEmulator: invalid signature length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (v < 27) {
+            v += 27;
+        }
+
+        bool valid = false;
+        for (uint256 i = 0; i < selectors.length && !valid; i++) {
+            bytes32 message = keccak256(abi.encodePacked(tx.origin, msg.sender, selectors[i], ciphertext));
+            valid = ecrecover(message, v, r, s) == tx.origin;
+        }
+        require(valid, "MpcEmulator: invalid input text signature");
+
+        uint256 pad = uint128(aesEncrypt(userKey(tx.origin), bytes16(uint128(ciphertext))));
+        return maskTo(uint8(metaData), (ciphertext >> 128) ^ pad);
+    }
+
+    function GetUserKey(bytes calldata) external view returns (bytes memory encryptedKey) {
+        // The real network RSA-encrypts the key with the provided public key, here it is returned as is
+        return abi.encodePacked(userKey(tx.origin));
+    }
+
+    // =========== Randomness ===========
+
+    function Rand(bytes1 metaData) external returns (uint256 result) {
+        return maskTo(uint8(metaData), nextRandom());
+    }
+
+    function RandBoundedBits(bytes1 metaData, uint8 numBits) external returns (uint256 result) {
+        uint256 bounded = numBits >= 128 ? nextRandom() : nextRandom() & ((uint256(1) << numBits) - 1);
+        return maskTo(uint8(metaData), bounded);
+    }
+
+    // =========== Arithmetic ===========
+
+    function Add(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), lhs + rhs);
+    }
+
+    function Sub(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        unchecked {
+            return maskTo(resultType(metaData), lhs - rhs);
+        }
+    }
+
+    // The product is not truncated to the operand width: mul(gtUint8, gtUint8) returns a gtUint16 and so on
+    function Mul(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        uint8 mpcType = resultType(metaData);
+        uint256 bits = bitsOf(mpcType) * 2;
+        return (lhs * rhs) & ((uint256(1) << (bits > 64 ? 64 : bits)) - 1);
+    }
+
+    // Division by zero behaves like the restoring division circuit: all ones quotient, dividend as remainder
+    function Div(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        uint8 mpcType = resultType(metaData);
+        return rhs == 0 ? maxOf(mpcType) : maskTo(mpcType, lhs / rhs);
+    }
+
+    function Rem(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        uint8 mpcType = resultType(metaData);
+        return rhs == 0 ? maskTo(mpcType, lhs) : maskTo(mpcType, lhs % rhs);
+    }
+
+    // =========== Bitwise ===========
+
+    function And(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), lhs & rhs);
+    }
+
+    function Or(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), lhs | rhs);
+    }
+
+    function Xor(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), lhs ^ rhs);
+    }
+
+    function Shl(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return rhs >= 64 ? 0 : maskTo(resultType(metaData), lhs << rhs);
+    }
+
+    function Shr(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return rhs >= 64 ? 0 : maskTo(resultType(metaData), lhs >> rhs);
+    }
+
+    function Not(bytes1 metaData, uint256 a) external pure returns (uint256 result) {
+        return maskTo(uint8(metaData), ~a);
+    }
+
+    // =========== Comparison ===========
+
+    function Eq(bytes3, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return lhs == rhs ? 1 : 0;
+    }
+
+    function Ne(bytes3, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return lhs != rhs ? 1 : 0;
+    }
+
+    function Ge(bytes3, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return lhs >= rhs ? 1 : 0;
+    }
+
+    function Gt(bytes3, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return lhs > rhs ? 1 : 0;
+    }
+
+    function Le(bytes3, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return lhs <= rhs ? 1 : 0;
+    }
+
+    function Lt(bytes3, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return lhs < rhs ? 1 : 0;
+    }
+
+    function Min(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), lhs < rhs ? lhs : rhs);
+    }
+
+    function Max(bytes3 metaData, uint256 lhs, uint256 rhs) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), lhs > rhs ? lhs : rhs);
+    }
+
+    function Decrypt(bytes1 metaData, uint256 a) external pure returns (uint256 result) {
+        return maskTo(uint8(metaData), a);
+    }
+
+    // mux(bit, a, b) selects a when the bit is off and b when it is on
+    function Mux(bytes3 metaData, uint256 bit, uint256 a, uint256 b) external pure returns (uint256 result) {
+        return maskTo(resultType(metaData), bit == 0 ? a : b);
+    }
+
+    // =========== Transfers ===========
+
+    function Transfer(
+        bytes4 metaData,
+        uint256 a,
+        uint256 b,
+        uint256 amount
+    ) external pure returns (uint256 new_a, uint256 new_b, uint256 res) {
+        uint8 mpcType = transferType(metaData);
+        if (amount > a) {
+            return (maskTo(mpcType, a), maskTo(mpcType, b), 0);
+        }
+        return (maskTo(mpcType, a - amount), maskTo(mpcType, b + amount), 1);
+    }
+
+    function TransferWithAllowance(
+        bytes4 metaData,
+        uint256 a,
+        uint256 b,
+        uint256 amount,
+        uint256 allowance
+    ) external pure returns (uint256 new_a, uint256 new_b, uint256 res, uint256 new_allowance) {
+        uint8 mpcType = transferType(metaData);
+        if (amount > a || amount > allowance) {
+            return (maskTo(mpcType, a), maskTo(mpcType, b), 0, maskTo(mpcType, allowance));
+        }
+        return (maskTo(mpcType, a - amount), maskTo(mpcType, b + amount), 1, maskTo(mpcType, allowance - amount));
+    }
+
+    // =========== Helpers ===========
+
+    function nextRandom() private returns (uint256) {
+        nonce++;
+        return uint128(bytes16(keccak256(abi.encode(seed, "rand", nonce))));
+    }
+
+    function bitsOf(uint8 mpcType) private pure returns (uint256) {
+        require(mpcType <= SUINT64_T, "MpcEmulator: unknown MPC_TYPE");
+        return mpcType == SBOOL_T ? 1 : 4 << mpcType;
+    }
+
+    function maxOf(uint8 mpcType) private pure returns (uint256) {
+        return (uint256(1) << bitsOf(mpcType)) - 1;
+    }
+
+    function maskTo(uint8 mpcType, uint256 value) private pure returns (uint256) {
+        return value & maxOf(mpcType);
+    }
+
+    // Mixed-width operations return the wider of the two operand types
+    function resultType(bytes3 metaData) private pure returns (uint8) {
+        uint8 lhsType = uint8(metaData[0]);
+        uint8 rhsType = uint8(metaData[1]);
+        return lhsType > rhsType ? lhsType : rhsType;
+    }
+
+    function transferType(bytes4 metaData) private pure returns (uint8 mpcType) {
+        mpcType = uint8(metaData[0]);
+        if (uint8(metaData[1]) > mpcType) mpcType = uint8(metaData[1]);
+        if (uint8(metaData[2]) > mpcType) mpcType = uint8(metaData[2]);
+    }
+
+    // AES-128 single block encryption (FIPS-197), used as the keystream of the user ciphertexts
+    function aesEncrypt(bytes16 key, bytes16 input) private pure returns (bytes16) {
+        bytes memory sbox = SBOX;
+        bytes memory w = new bytes(176);
+        for (uint256 i = 0; i < 16; i++) {
+            w[i] = key[i];
+        }
+        uint8 rcon = 1;
+        for (uint256 i = 16; i < 176; i += 4) {
+            bytes1 t0 = w[i - 4];
+            bytes1 t1 = w[i - 3];
+            bytes1 t2 = w[i - 2];
+            bytes1 t3 = w[i - 1];
+            if (i % 16 == 0) {
+                (t0, t1, t2, t3) = (
+                    sbox[uint8(t1)] ^ bytes1(rcon),
+                    sbox[uint8(t2)],
+                    sbox[uint8(t3)],
+                    sbox[uint8(t0)]
+                );
+                rcon = xtime(rcon);
+            }
+            w[i] = w[i - 16] ^ t0;
+            w[i + 1] = w[i - 15] ^ t1;
+            w[i + 2] = w[i - 14] ^ t2;
+            w[i + 3] = w[i - 13] ^ t3;
+        }
+
+        bytes memory state = new bytes(16);
+        for (uint256 i = 0; i < 16; i++) {
+            state[i] = input[i] ^ w[i];
+        }
+        bytes memory shifted = new bytes(16);
+        for (uint256 round = 1; round <= 10; round++) {
+            // SubBytes and ShiftRows, the state is stored column by column
+            for (uint256 c = 0; c < 4; c++) {
+                for (uint256 r = 0; r < 4; r++) {
+                    shifted[c * 4 + r] = sbox[uint8(state[((c + r) % 4) * 4 + r])];
+                }
+            }
+            for (uint256 c = 0; c < 4; c++) {
+                uint8 a0 = uint8(shifted[c * 4]);
+                uint8 a1 = uint8(shifted[c * 4 + 1]);
+                uint8 a2 = uint8(shifted[c * 4 + 2]);
+                uint8 a3 = uint8(shifted[c * 4 + 3]);
+                if (round < 10) {
+                    // MixColumns
+                    (a0, a1, a2, a3) = (
+                        xtime(a0) ^ xtime(a1) ^ a1 ^ a2 ^ a3,
+                        a0 ^ xtime(a1) ^ xtime(a2) ^ a2 ^ a3,
+                        a0 ^ a1 ^ xtime(a2) ^ xtime(a3) ^ a3,
+                        xtime(a0) ^ a0 ^ a1 ^ a2 ^ xtime(a3)
+                    );
+                }
+                uint256 k = round * 16 + c * 4;
+                state[c * 4] = bytes1(a0) ^ w[k];
+                state[c * 4 + 1] = bytes1(a1) ^ w[k + 1];
+                state[c * 4 + 2] = bytes1(a2) ^ w[k + 2];
+                state[c * 4 + 3] = bytes1(a3) ^ w[k + 3];
+            }
+        }
+        return bytes16(state);
+    }
+
+    function xtime(uint8 x) private pure returns (uint8) {
+        return (x & 0x80) != 0 ? uint8((uint16(x) << 1) ^ 0x11b) : x << 1;
+    }
+}
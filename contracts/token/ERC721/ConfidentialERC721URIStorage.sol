@@ -13,6 +13,11 @@ abstract contract ConfidentialERC721URIStorage is IERC165, ConfidentialERC721 {
     event BatchMetadataUpdate(uint256 _fromTokenId, uint256 _toTokenId);
 
     mapping(uint256 tokenId => utUint64) private _tokenURIs;
+    // URIs longer than 8 bytes, split into 64-bit words by the client
+    mapping(uint256 tokenId => utUint64[]) private _tokenURIWords;
+
+    // Every word is re-encrypted on each transfer, so the count is capped to bound the gas of a transfer
+    uint256 public constant MAX_TOKEN_URI_WORDS = 32;
 
     /**
      * @dev See {IERC165-supportsInterface}
@@ -27,6 +32,16 @@ abstract contract ConfidentialERC721URIStorage is IERC165, ConfidentialERC721 {
         return _tokenURIs[tokenId].userCiphertext;
     }
 
+    function tokenURIWords(
+        uint256 tokenId
+    ) public view virtual returns (ctUint64[] memory words) {
+        utUint64[] storage stored = _tokenURIWords[tokenId];
+        words = new ctUint64[](stored.length);
+        for (uint256 i = 0; i < stored.length; i++) {
+            words[i] = stored[i].userCiphertext;
+        }
+    }
+
     /**
      * @dev Sets `_tokenURI` as the tokenURI of `tokenId`.
      *
@@ -41,6 +56,28 @@ abstract contract ConfidentialERC721URIStorage is IERC165, ConfidentialERC721 {
         emit MetadataUpdate(tokenId);
     }
 
+    /**
+     * @dev Sets `words` as the multi-word tokenURI of `tokenId`, replacing the previous one.
+     * At most MAX_TOKEN_URI_WORDS words.
+     *
+     * Emits {MetadataUpdate}.
+     */
+    function _setTokenURIWords(
+        address to,
+        uint256 tokenId,
+        gtUint64[] memory words
+    ) internal virtual {
+        require(
+            words.length <= MAX_TOKEN_URI_WORDS,
+            "ConfidentialERC721URIStorage: too many URI words"
+        );
+        delete _tokenURIWords[tokenId];
+        for (uint256 i = 0; i < words.length; i++) {
+            _tokenURIWords[tokenId].push(MpcCore.offBoardCombined(words[i], to));
+        }
+        emit MetadataUpdate(tokenId);
+    }
+
     function _mint(address to, uint256 tokenId) internal virtual override {
         ConfidentialERC721._mint(to, tokenId);
 
@@ -60,6 +97,13 @@ abstract contract ConfidentialERC721URIStorage is IERC165, ConfidentialERC721 {
             MpcCore.onBoard(_tokenURIs[tokenId].ciphertext),
             to
         );
+        utUint64[] storage words = _tokenURIWords[tokenId];
+        for (uint256 i = 0; i < words.length; i++) {
+            words[i] = MpcCore.offBoardCombined(
+                MpcCore.onBoard(words[i].ciphertext),
+                to
+            );
+        }
 
         return ConfidentialERC721._update(to, tokenId, auth);
     }
@@ -1,21 +1,32 @@
 import { HardhatUserConfig } from "hardhat/config"
 import "@nomicfoundation/hardhat-toolbox"
 import dotenv from "dotenv"
+import "./tasks/coti"
+import "./tasks/mpc-types"
+// test utilities loaded by the config itself, they must not import hardhat at module level
+import { gasProfileMochaOptions } from "./test-hardhat/util/gas-profiler"
+import { loadNetworks } from "./test-hardhat/util/networks"
 dotenv.config()
 
+// devnet, testnet, localhost and the ones from networks.json or RPC_URL/CHAIN_ID, see test-hardhat/util/networks.ts
+const { defaultNetwork, networks } = loadNetworks()
+
 const config: HardhatUserConfig = {
-  defaultNetwork: "devnet",
+  defaultNetwork,
   solidity: "0.8.24",
   networks: {
-    // hardhat: {},
-    devnet: {
-      url: "https://devnet.coti.io/rpc",
-      chainId: 13068200,
+    // runs the suites offline against contracts/mocks/MpcEmulator.sol installed at the MPC precompile address.
+    // Failed transactions are mined like on devnet, so reverts surface from tx.wait()
+    hardhat: {
+      throwOnTransactionFailures: false,
     },
+    ...networks,
   },
   paths:{
     tests:'test-hardhat',
-  }
+  },
+  // GAS_PROFILE=true profiles every transaction of the run, see test-hardhat/util/gas-profiler.ts
+  mocha: gasProfileMochaOptions(),
 }
 
 export default config
@@ -0,0 +1,14 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules"
+import ERC20ExampleModule from "./ERC20Example"
+
+export default buildModule("ConfidentialAuction", (m) => {
+  const { token } = m.useModule(ERC20ExampleModule)
+
+  const beneficiary = m.getParameter("beneficiary", m.getAccount(1))
+  const biddingTime = m.getParameter("biddingTime", 60 * 60 * 24)
+  const isStoppable = m.getParameter("isStoppable", true)
+
+  const auction = m.contract("ConfidentialAuction", [beneficiary, token, biddingTime, isStoppable])
+
+  return { token, auction }
+})
@@ -0,0 +1,8 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules"
+
+export default buildModule("ConfidentialIdentityRegistry", (m) => {
+  // the deployer is the registry owner, the only one allowed to add registrars
+  const registry = m.contract("ConfidentialIdentityRegistry")
+
+  return { registry }
+})
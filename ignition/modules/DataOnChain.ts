@@ -0,0 +1,7 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules"
+
+export default buildModule("DataOnChain", (m) => {
+  const dataOnChain = m.contract("DataOnChain")
+
+  return { dataOnChain }
+})
@@ -0,0 +1,12 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules"
+
+export default buildModule("ERC20Example", (m) => {
+  const name = m.getParameter("name", "My Confidential Token")
+  const symbol = m.getParameter("symbol", "CTOK")
+  const initialSupply = m.getParameter("initialSupply", 500000000)
+
+  // the initial supply is minted to the deployer
+  const token = m.contract("ERC20Example", [name, symbol, initialSupply])
+
+  return { token }
+})
@@ -0,0 +1,8 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules"
+
+export default buildModule("NFTExample", (m) => {
+  // the deployer owns the contract and its first token
+  const nft = m.contract("NFTExample")
+
+  return { nft }
+})
@@ -0,0 +1,202 @@
+import fs from "fs"
+import { task, types } from "hardhat/config"
+import type { HardhatRuntimeEnvironment } from "hardhat/types"
+import { Contract, Wallet, formatUnits, isAddress, isHexString } from "ethers"
+import { ConfidentialAccount, decryptValue } from "@coti-io/coti-sdk-typescript"
+import { openKeystore } from "../test-hardhat/util/keystore"
+import { checkUserKey, openProfile } from "../test-hardhat/util/profiles"
+import { accountHistory, indexTokenEvents, openTokenEventStore } from "../test-hardhat/util/erc20-indexer"
+import { IdentityRegistryClient } from "../test-hardhat/util/identity-registry"
+import { sendTransaction } from "../test-hardhat/util/transactions"
+import { prepareItUint64 } from "../test-hardhat/util/mpc-values"
+import { PayoutCheckpoint, hashPayoutCsv, parsePayoutCsv, payout } from "../test-hardhat/util/payouts"
+
+// --account takes a private key, an address from the keystore or an index into the keystore profile of the current chain.
+// A private key is never written to the keystore, its user key is the one stored for its address if any.
+async function resolveAccount(hre: HardhatRuntimeEnvironment, account: string) {
+  const keystore = openKeystore()
+  const network = await openProfile(hre, keystore)
+  const entries = await keystore.load(network)
+
+  if (isHexString(account, 32)) {
+    const wallet = new Wallet(account, hre.ethers.provider)
+    const entry = entries.find((e) => e.address.toLowerCase() === wallet.address.toLowerCase())
+    return { keystore, network, wallet, userKey: entry?.userKey, stored: entry !== undefined }
+  }
+
+  const entry = isAddress(account)
+    ? entries.find((e) => e.address.toLowerCase() === account.toLowerCase())
+    : entries[Number(account)]
+  if (!entry) {
+    throw new Error(`Account ${account} not found in the keystore profile ${network} (${hre.network.name})`)
+  }
+
+  const wallet = new Wallet(entry.privateKey, hre.ethers.provider)
+  return { keystore, network, wallet, userKey: entry.userKey, stored: true }
+}
+
+async function resolveConfidentialAccount(hre: HardhatRuntimeEnvironment, account: string) {
+  const { wallet, userKey } = await resolveAccount(hre, account)
+  if (!userKey) {
+    throw new Error(`Account ${wallet.address} is not onboarded, run coti:onboard first`)
+  }
+
+  const confidentialAccount = new ConfidentialAccount(wallet, userKey)
+  await checkUserKey(hre, confidentialAccount)
+  return confidentialAccount
+}
+
+async function printBalance(hre: HardhatRuntimeEnvironment, tokenAddress: string, account: ConfidentialAccount) {
+  const token = await hre.ethers.getContractAt("ConfidentialERC20", tokenAddress, account.wallet)
+  const ctBalance = await token.balanceOf()
+  const balance = ctBalance === BigInt(0) ? 0 : decryptValue(ctBalance, account.userKey)
+
+  console.log(`${account.wallet.address}: ${formatUnits(balance, await token.decimals())} ${await token.symbol()}`)
+}
+
+task("coti:onboard", "Onboards an account and saves its AES user key into the keystore")
+  .addParam("account", "Private key, keystore address or keystore index", "0")
+  .addOptionalParam("contract", "Address of a deployed AccountOnboard contract (defaults to the sdk one)")
+  .addFlag("force", "Onboard again even if the keystore already has a user key")
+  .addFlag("save", "Save the private key given with --account into the keystore along with its user key")
+  .setAction(async ({ account, contract, force, save }, hre) => {
+    const { keystore, network, wallet, userKey, stored } = await resolveAccount(hre, account)
+    if (userKey && !force) {
+      console.log(`${wallet.address} is already onboarded on ${network}, use --force to rotate its user key`)
+      return
+    }
+    if (!stored && !save) {
+      throw new Error(
+        `${wallet.address} is not in the keystore profile ${network}, pass --save to store its private key`
+      )
+    }
+
+    const onboardContract = contract
+      ? new Contract(contract, (await hre.artifacts.readArtifact("AccountOnboard")).abi, wallet)
+      : undefined
+    const onboarded = await ConfidentialAccount.onboard(wallet, onboardContract)
+    if (!stored) await keystore.import([{ address: wallet.address, privateKey: wallet.privateKey, network }])
+    await keystore.rotate(network, wallet.address, onboarded.userKey)
+
+    console.log(`Onboarded ${wallet.address} on ${network}, user key saved into the keystore`)
+  })
+
+task("coti:balance", "Decrypts the ConfidentialERC20 balance of an account")
+  .addParam("token", "Address of the ConfidentialERC20 token")
+  .addParam("account", "Private key, keystore address or keystore index", "0")
+  .setAction(async ({ token, account }, hre) => {
+    await printBalance(hre, token, await resolveConfidentialAccount(hre, account))
+  })
+
+task("coti:transfer", "Sends an encrypted ConfidentialERC20 transfer")
+  .addParam("token", "Address of the ConfidentialERC20 token")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Amount in the smallest unit of the token", undefined, types.bigint)
+  .addParam("account", "Private key, keystore address or keystore index of the sender", "0")
+  .addFlag("reveal", "Reveal the transfer result (revealRes)")
+  .setAction(async ({ token, to, amount, account, reveal }, hre) => {
+    const sender = await resolveConfidentialAccount(hre, account)
+    const contract = await hre.ethers.getContractAt("ConfidentialERC20", token, sender.wallet)
+
+    const func = contract["transfer(address,uint256,bytes,bool)"]
+    const { ctInt, signature } = await prepareItUint64(amount, sender, token, func.fragment.selector)
+    const receipt = await sendTransaction(func, to, ctInt, signature, reveal)
+
+    console.log(`Transfer sent in ${receipt.hash}`)
+    await printBalance(hre, token, sender)
+  })
+
+task("coti:allowance", "Decrypts the ConfidentialERC20 allowance given by owner to spender")
+  .addParam("token", "Address of the ConfidentialERC20 token")
+  .addParam("owner", "Owner address")
+  .addParam("spender", "Spender address")
+  .addParam("account", "Private key, keystore address or keystore index of the owner", "0")
+  .setAction(async ({ token, owner, spender, account }, hre) => {
+    // the allowance is re-encrypted with the owner key only, so it has to be read by the owner
+    const reader = await resolveConfidentialAccount(hre, account)
+    if (reader.wallet.address.toLowerCase() !== owner.toLowerCase()) {
+      throw new Error(`The allowance is encrypted for ${owner}, --account ${reader.wallet.address} cannot decrypt it`)
+    }
+    const contract = await hre.ethers.getContractAt("ConfidentialERC20", token, reader.wallet)
+
+    const ctAllowance = await contract.allowance(owner, spender)
+    const allowance = ctAllowance === BigInt(0) ? 0 : decryptValue(ctAllowance, reader.userKey)
+    console.log(`Allowance of ${spender} on ${owner}: ${formatUnits(allowance, await contract.decimals())}`)
+  })
+
+task("coti:history", "Indexes the ConfidentialERC20 events and prints the decrypted history of an account")
+  .addParam("token", "Address of the ConfidentialERC20 token")
+  .addParam("account", "Private key, keystore address or keystore index", "0")
+  .addOptionalParam("fromBlock", "First block to index when the token was never indexed", 0, types.int)
+  .setAction(async ({ token, account, fromBlock }, hre) => {
+    const reader = await resolveConfidentialAccount(hre, account)
+    const contract = await hre.ethers.getContractAt("ConfidentialERC20", token, reader.wallet)
+    const decimals = await contract.decimals()
+
+    const { events } = await indexTokenEvents(contract, openTokenEventStore(), { fromBlock })
+    for (const entry of await accountHistory(contract, events, reader)) {
+      const counterparty = entry.direction === "in" ? entry.from : entry.to
+      const amount = entry.amount !== undefined ? formatUnits(entry.amount, decimals) : "?"
+      const details =
+        entry.name === "Transfer"
+          ? `${entry.direction} ${amount} ${entry.direction === "in" ? "from" : "to"} ${counterparty}`
+          : `${entry.direction === "out" ? "approved" : "approved by"} ${counterparty}` +
+            (entry.allowance !== undefined ? ` for ${formatUnits(entry.allowance, decimals)}` : "")
+      console.log(`#${entry.blockNumber} ${entry.name} ${details}, balance ${formatUnits(entry.balance, decimals)}`)
+    }
+  })
+
+task("coti:identity-permissions", "Prints who can read which ConfidentialIdentityRegistry identifiers")
+  .addParam("registry", "Address of the ConfidentialIdentityRegistry")
+  .addParam("fromBlock", "Block the registry was deployed in, the grants are replayed from it", undefined, types.int)
+  .setAction(async ({ registry, fromBlock }, hre) => {
+    const contract = await hre.ethers.getContractAt("ConfidentialIdentityRegistry", registry)
+    const { owner, permissions } = await new IdentityRegistryClient(contract).permissionMatrix(fromBlock)
+
+    console.log(`Registry owner ${owner} can read every identifier`)
+    for (const [holder, verifiers] of Object.entries(permissions)) {
+      console.log(holder)
+      for (const [verifier, identifiers] of Object.entries(verifiers)) {
+        console.log(`  ${verifier}: ${identifiers.join(", ")}`)
+      }
+    }
+  })
+
+task("coti:payout", "Pays the address,amount lines of a CSV with encrypted ConfidentialERC20 transfers")
+  .addParam("token", "Address of the ConfidentialERC20 token")
+  .addParam("csv", "CSV file of address,amount lines, amounts in the smallest unit of the token")
+  .addParam("account", "Private key, keystore address or keystore index of the sender", "0")
+  .addOptionalParam("checkpoint", "Checkpoint file to resume from (defaults to <csv>.checkpoint.json)")
+  .addOptionalParam("window", "Transfers in flight at once", 16, types.int)
+  .setAction(async ({ token, csv, account, checkpoint, window }, hre) => {
+    const sender = await resolveConfidentialAccount(hre, account)
+    const contract = await hre.ethers.getContractAt("ConfidentialERC20", token, sender.wallet)
+    const decimals = await contract.decimals()
+
+    const content = fs.readFileSync(csv, "utf8")
+    const { statuses } = await payout(
+      contract,
+      sender,
+      parsePayoutCsv(content),
+      new PayoutCheckpoint(checkpoint ?? `${csv}.checkpoint.json`),
+      hashPayoutCsv(content),
+      {
+        window,
+        onStatus: (p, status) =>
+          console.log(`line ${p.line} ${p.to} ${formatUnits(p.amount, decimals)}: ${status.state}`),
+      }
+    )
+
+    const counts: Record<string, number> = {}
+    for (const [p, status] of statuses) {
+      counts[status.state] = (counts[status.state] ?? 0) + 1
+      if (status.state === "failed" || status.state === "unverified") {
+        console.log(`line ${p.line} ${p.to} ${status.state}: ${status.reason}`)
+      }
+    }
+    console.log(
+      Object.entries(counts)
+        .map(([state, count]) => `${count} ${state}`)
+        .join(", ")
+    )
+  })
@@ -0,0 +1,208 @@
+import fs from "fs"
+import path from "path"
+import ts from "typescript"
+import { subtask } from "hardhat/config"
+import type { Artifacts } from "hardhat/types"
+import { FunctionFragment, type JsonFragment, type JsonFragmentType } from "ethers"
+
+// TypeChain sees the user-defined value types of contracts/lib/MpcCore.sol as the uint256 they wrap. After each
+// generation the contract typings are rewritten from the ABI internalType: a ct, gt or input text parameter or result
+// gets the branded type of typechain-types/mpc.ts, so a raw number, or a ciphertext of another type, does not compile
+// where the contract expects one. The ut structs (a network and a user ciphertext) get no brand: the contracts keep
+// them in storage and only ever take or return one of their ctUint64 halves.
+
+const valueTypes = ["Bool", "Uint8", "Uint16", "Uint32", "Uint64"]
+
+const brandsFile = `/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+// Values of the user-defined types of MpcCore.sol. They are bigints at runtime, the brand only exists for the compiler:
+// a contract result has it, a number needs an explicit cast.
+declare const mpcType: unique symbol
+export type MpcValue<T, Name extends string> = T & { readonly [mpcType]: Name }
+
+${["gt", "ct"]
+  .flatMap((kind) => valueTypes.map((t) => `export type ${pascal(kind)}${t} = MpcValue<bigint, "${kind}${t}">`))
+  .join("\n")}
+
+// An input text as made by prepareIT, passed as a ciphertext followed by its signature
+${valueTypes
+  .map(
+    (t) => `export type It${t} = {
+  ctInt: MpcValue<bigint, "it${t}">
+  signature: MpcValue<Uint8Array, "it${t}">
+}`
+  )
+  .join("\n")}
+`
+
+subtask("typechain:generate-types").setAction(async (args, { artifacts, config }, runSuper) => {
+  const result = await runSuper(args)
+  const outDir = path.resolve(config.paths.root, config.typechain.outDir)
+  if (fs.existsSync(path.join(outDir, "common.ts"))) {
+    await brandContractTypings(outDir, artifacts)
+  }
+
+  return result
+})
+
+export async function brandContractTypings(outDir: string, artifacts: Artifacts) {
+  fs.writeFileSync(path.join(outDir, "mpc.ts"), brandsFile)
+
+  for (const file of contractTypings(outDir)) {
+    const source = fs.readFileSync(file, "utf8")
+    const contractName = /export interface (\w+) extends BaseContract/.exec(source)?.[1]
+    if (!contractName) continue
+
+    const abi = await readAbi(artifacts, outDir, file, contractName)
+    const branded = abi && brandTypings(source, file, abi, path.relative(path.dirname(file), path.join(outDir, "mpc")))
+    if (branded && branded !== source) {
+      fs.writeFileSync(file, branded)
+    }
+  }
+}
+
+function contractTypings(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return entry.name === "factories" ? [] : contractTypings(entryPath)
+    return entry.name.endsWith(".ts") && !entry.name.endsWith(".d.ts") ? [entryPath] : []
+  })
+}
+
+// typechain-types/contracts/examples/DataOnChain.ts is DataOnChain of contracts/examples/DataOnChain.sol, the
+// contracts of a file with several of them are in a folder named after it
+async function readAbi(artifacts: Artifacts, outDir: string, file: string, contractName: string) {
+  const dir = path.relative(outDir, path.dirname(file)).split(path.sep).join("/")
+  const sourceName = dir.endsWith(".sol") ? dir : `${dir}/${contractName}.sol`
+  const fullyQualifiedName = `${sourceName}:${contractName}`
+
+  if (!(await artifacts.artifactExists(fullyQualifiedName))) return undefined
+
+  return (await artifacts.readArtifact(fullyQualifiedName)).abi as JsonFragment[]
+}
+
+// The branded type of each parameter, undefined for the ones left alone. A ct value followed by bytes is an input
+// text, the same pattern the MPC emulator looks for.
+function brandParameters(params: readonly JsonFragmentType[], inputTexts: boolean) {
+  const brands: (string | undefined)[] = []
+  for (let i = 0; i < params.length; i++) {
+    const match = /^(ct|gt)(Bool|Uint\d+)(\[\])?$/.exec(params[i].internalType ?? "")
+    if (!match) {
+      brands.push(undefined)
+      continue
+    }
+
+    const [, kind, valueType, array = ""] = match
+    if (inputTexts && kind === "ct" && params[i + 1]?.type === `bytes${array}`) {
+      brands.push(`It${valueType}["ctInt"]${array}`, `It${valueType}["signature"]${array}`)
+      i++
+    } else {
+      brands.push(`${pascal(kind)}${valueType}${array}`)
+    }
+  }
+
+  return brands
+}
+
+function brandTypings(source: string, file: string, abi: JsonFragment[], brandsModule: string) {
+  const functions = abi.filter((entry) => entry.type === "function")
+  const events = abi.filter((entry) => entry.type === "event")
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true)
+  const edits: { start: number; end: number; text: string }[] = []
+  const used = new Set<string>()
+
+  const replace = (node: ts.TypeNode, brand: string | undefined) => {
+    if (!brand) return
+    edits.push({ start: node.getStart(), end: node.getEnd(), text: brand })
+    used.add(brand.replace(/\[.*$/, ""))
+  }
+
+  // [a: BigNumberish, b: BytesLike] or, for results, [bigint] and [[bigint, bigint] & { a: bigint; b: bigint }]
+  const brandTuple = (node: ts.TypeNode, brands: (string | undefined)[], single: boolean) => {
+    if (!ts.isTupleTypeNode(node)) return
+    if (single && brands.length > 1 && node.elements.length === 1) {
+      const [element] = node.elements
+      if (!ts.isIntersectionTypeNode(element)) return
+      for (const part of element.types) {
+        if (ts.isTupleTypeNode(part)) brandTuple(part, brands, false)
+        if (ts.isTypeLiteralNode(part)) {
+          part.members.forEach(
+            (member, i) => ts.isPropertySignature(member) && member.type && replace(member.type, brands[i])
+          )
+        }
+      }
+      return
+    }
+    node.elements.forEach((element, i) => replace(ts.isNamedTupleMember(element) ? element.type : element, brands[i]))
+  }
+
+  const brandMethod = (key: string, method: ts.TypeNode | undefined) => {
+    if (!method || !ts.isTypeReferenceNode(method) || method.typeName.getText() !== "TypedContractMethod") return
+    const entry = key.includes("(")
+      ? functions.find((f) => FunctionFragment.from(f).format("sighash") === key)
+      : functions.find((f) => f.name === key)
+    const [inputs, outputs] = method.typeArguments ?? []
+    if (!entry || !inputs || !outputs) return
+
+    brandTuple(inputs, brandParameters(entry.inputs ?? [], true), false)
+    brandTuple(outputs, brandParameters(entry.outputs ?? [], false), true)
+  }
+
+  // Event namespaces are named Transfer_address_address_uint256_Event when the event is overloaded, TransferEvent if not
+  const eventOf = (namespace: string) =>
+    events.find((e) => {
+      const overloaded = events.filter((other) => other.name === e.name).length > 1
+      const types = (e.inputs ?? []).map((input) => input.type)
+      return namespace === (overloaded ? `${e.name}_${types.join("_")}_Event` : `${e.name}Event`)
+    })
+
+  const visit = (node: ts.Node) => {
+    if (ts.isPropertySignature(node) && node.name && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+      brandMethod(node.name.text, node.type)
+    } else if (ts.isMethodSignature(node) && node.name.getText() === "getFunction") {
+      const literal = node.parameters[0]?.type
+      if (literal && ts.isLiteralTypeNode(literal) && ts.isStringLiteral(literal.literal)) {
+        brandMethod(literal.literal.text, node.type)
+      }
+    } else if (ts.isModuleDeclaration(node) && node.body && ts.isModuleBlock(node.body)) {
+      const event = eventOf(node.name.getText())
+      if (event) brandEvent(node.body, brandParameters(event.inputs ?? [], false))
+      return
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  const brandEvent = (body: ts.ModuleBlock, brands: (string | undefined)[]) => {
+    for (const statement of body.statements) {
+      const name = (statement as ts.TypeAliasDeclaration | ts.InterfaceDeclaration).name?.getText()
+      if (ts.isTypeAliasDeclaration(statement) && (name === "InputTuple" || name === "OutputTuple")) {
+        brandTuple(statement.type, brands, false)
+      } else if (ts.isInterfaceDeclaration(statement) && name === "OutputObject") {
+        statement.members.forEach(
+          (member, i) => ts.isPropertySignature(member) && member.type && replace(member.type, brands[i])
+        )
+      }
+    }
+  }
+
+  visit(sourceFile)
+  if (edits.length === 0) return source
+
+  let branded = source
+  for (const { start, end, text } of edits.sort((a, b) => b.start - a.start)) {
+    branded = branded.slice(0, start) + text + branded.slice(end)
+  }
+
+  const specifier = brandsModule.startsWith(".") ? brandsModule : `./${brandsModule}`
+  const importLine = `import type { ${[...used].sort().join(", ")} } from "${specifier.split(path.sep).join("/")}";\n`
+  const existing = /^import type \{[^}]*\} from "[^"]*\/mpc";\n/m
+  return existing.test(branded)
+    ? branded.replace(existing, importLine)
+    : branded.replace(/(\} from "[^"]*common";\n)/, `$1${importLine}`)
+}
+
+function pascal(kind: string) {
+  return kind[0].toUpperCase() + kind.slice(1)
+}
@@ -0,0 +1,113 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import { Wallet } from "ethers"
+import { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { setupAccounts } from "./util/onboard"
+import { PlaintextKeystore } from "./util/keystore"
+import { builtinNetworks, loadNetworks } from "./util/networks"
+import { openProfile, probeUserKey, profileName } from "./util/profiles"
+
+// Runs on any network, the profiles are the ones of the chain it is connected to
+describe("Networks and account profiles", function () {
+  let tmpDir: string
+  let chainId: bigint
+
+  before(async function () {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "profiles-"))
+    chainId = (await hre.ethers.provider.getNetwork()).chainId
+  })
+
+  after(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  describe("loadNetworks", function () {
+    const noFile = () => ({ NETWORKS_PATH: path.join(tmpDir, "missing.json") })
+
+    function withFile(content: object) {
+      const filePath = path.join(tmpDir, `networks-${Math.random().toString(16).slice(2)}.json`)
+      fs.writeFileSync(filePath, JSON.stringify(content))
+      return { NETWORKS_PATH: filePath }
+    }
+
+    it("defines the built-in networks and defaults to devnet", function () {
+      const { defaultNetwork, networks } = loadNetworks(noFile())
+
+      expect(defaultNetwork).to.equal("devnet")
+      expect(networks.devnet).to.deep.equal(builtinNetworks.devnet)
+      expect(networks.testnet).to.deep.equal(builtinNetworks.testnet)
+      expect(networks.localhost.mpcEmulator).to.equal(true)
+    })
+
+    it("takes networks and the default network from the networks file", function () {
+      const staging = { url: "https://staging.example/rpc", chainId: 99 }
+      const env = withFile({ defaultNetwork: "staging", networks: { staging, devnet: { ...staging, chainId: 98 } } })
+      const { defaultNetwork, networks } = loadNetworks(env)
+
+      expect(defaultNetwork).to.equal("staging")
+      expect(networks.staging).to.deep.equal(staging)
+      expect(networks.devnet.chainId).to.equal(98)
+    })
+
+    it("adds a custom network from RPC_URL and CHAIN_ID", function () {
+      const { networks } = loadNetworks({ ...noFile(), RPC_URL: "http://10.0.0.1:8545", CHAIN_ID: "1234" })
+
+      expect(networks.custom).to.deep.equal({ url: "http://10.0.0.1:8545", chainId: 1234 })
+    })
+
+    it("rejects invalid definitions", function () {
+      expect(() => loadNetworks({ ...noFile(), RPC_URL: "http://10.0.0.1:8545" })).to.throw(/chainId/)
+      expect(() => loadNetworks(withFile({ networks: { broken: { url: "ws://node", chainId: 1 } } }))).to.throw(/url/)
+      expect(() => loadNetworks(withFile({ networks: { hardhat: builtinNetworks.devnet } }))).to.throw(/in-process/)
+      expect(() => loadNetworks(withFile({ defaultNetwork: "unknown" }))).to.throw(/unknown is not defined/)
+    })
+  })
+
+  describe("openProfile", function () {
+    const env = { ...process.env }
+
+    afterEach(function () {
+      process.env = { ...env }
+    })
+
+    it("imports the .env accounts of its chain only", async function () {
+      const keystore = new PlaintextKeystore(path.join(tmpDir, "env.json"))
+      const [legacyWallet, chainWallet] = [Wallet.createRandom(), Wallet.createRandom()]
+      process.env.SIGNING_KEYS = legacyWallet.privateKey
+      process.env.USER_KEYS = "00".repeat(16)
+      process.env[`SIGNING_KEYS_${chainId}`] = chainWallet.privateKey
+      process.env[`USER_KEYS_${chainId}`] = "11".repeat(16)
+
+      const profile = await openProfile(hre, keystore)
+      const entries = await keystore.load(profile)
+
+      expect(profile).to.equal(profileName(chainId))
+      expect(entries.map(({ address, userKey }) => ({ address, userKey }))).to.deep.equal([
+        { address: chainWallet.address, userKey: "11".repeat(16) },
+      ])
+    })
+  })
+
+  // against the MPC emulator locally, against the precompile on devnet
+  describe("probeUserKey", function () {
+    it("accepts the user key the network holds for the account", async function () {
+      const [account] = await setupAccounts(1)
+
+      await probeUserKey(hre, account)
+    })
+
+    it("refuses a user key onboarded for another account or chain", async function () {
+      const [account, other] = await setupAccounts(2)
+      const stale = new ConfidentialAccount(account.wallet, other.userKey)
+
+      const error = await probeUserKey(hre, stale).then(
+        () => undefined,
+        (error: Error) => error
+      )
+      expect(error?.message).to.include(`was not onboarded on chain ${chainId}`)
+    })
+  })
+})
@@ -1,29 +1,55 @@
 import hre from "hardhat"
 import { expect } from "chai"
-import { type ConfidentialAccount, decryptValue, prepareIT } from "@coti-io/coti-sdk-typescript"
-import { setupAccounts } from "./util/onboard"
+import { type ConfidentialAccount, decryptValue } from "@coti-io/coti-sdk-typescript"
+import { bidderRoles, setupAccounts, setupNamedAccounts } from "./util/onboard"
 import { deploymentInfo } from "./confidential-erc20.test"
+import { deployModule } from "./util/deployments"
+import { sendTransaction, transactionError } from "./util/transactions"
+import "./util/matchers"
+import { AuctionClient, type ScriptedBid, knownAuctionDeviation, runAuctionScenario } from "./util/auction"
+import { prepareItUint64 } from "./util/mpc-values"
+import ConfidentialAuctionModule from "../ignition/modules/ConfidentialAuction"
 
-const gasLimit = 12000000
+// The scenarios ConfidentialAuction is known to get wrong are pending until the contract is fixed,
+// AUCTION_KNOWN_FAILURES runs them
+const knownFailure = process.env.AUCTION_KNOWN_FAILURES ? it : it.skip
 
 async function deploy() {
   const [owner, otherAccount] = await setupAccounts()
 
-  const tokenContract = await hre.ethers.getContractFactory("ERC20Example")
   const { name, symbol, initialSupply } = deploymentInfo
-  const token = await tokenContract
-    .connect(owner.wallet)
-    .deploy(name, symbol, initialSupply, { gasLimit, from: owner.wallet.address })
-  await token.waitForDeployment()
-
-  const factory = await hre.ethers.getContractFactory("ConfidentialAuction")
-  const contract = await factory
-    .connect(owner.wallet)
-    .deploy(otherAccount.wallet.address, await token.getAddress(), 60 * 60 * 24, true, { gasLimit })
-  await contract.waitForDeployment()
-  // const contract = await hre.ethers.getContractAt("ConfidentialAuction", "0xFA71F49669d65dbb91d268780828cB2449CB473c")
-  //   console.log(`contractAddress ${await contract.getAddress()}`)
-  return { token, contract, contractAddress: await contract.getAddress(), owner, otherAccount }
+  // an auction can only be stopped once, so every run needs its own
+  const { addresses } = await deployModule(ConfidentialAuctionModule, [owner, otherAccount], {
+    parameters: {
+      ERC20Example: { name, symbol, initialSupply },
+      ConfidentialAuction: { beneficiary: otherAccount.wallet.address },
+    },
+    fresh: true,
+  })
+  const token = await hre.ethers.getContractAt("ERC20Example", addresses.token, owner.wallet)
+  const contract = await hre.ethers.getContractAt("ConfidentialAuction", addresses.auction, owner.wallet)
+  return { token, contract, contractAddress: addresses.auction, owner, otherAccount }
+}
+
+async function deployScenario() {
+  const { owner, beneficiary, ...bidders } = await setupNamedAccounts(["owner", "beneficiary", ...bidderRoles(3)])
+
+  const { name, symbol, initialSupply } = deploymentInfo
+  const { addresses } = await deployModule(ConfidentialAuctionModule, [owner, beneficiary], {
+    parameters: {
+      ERC20Example: { name, symbol, initialSupply },
+      ConfidentialAuction: { beneficiary: beneficiary.wallet.address },
+    },
+    fresh: true,
+  })
+  const token = await hre.ethers.getContractAt("ERC20Example", addresses.token, owner.wallet)
+  const auction = await hre.ethers.getContractAt("ConfidentialAuction", addresses.auction, owner.wallet)
+  return {
+    client: new AuctionClient(auction, token),
+    owner,
+    beneficiary,
+    bidders: Object.values(bidders),
+  }
 }
 
 async function expectBalance(
@@ -82,16 +108,16 @@ describe("Confidential Auction", function () {
 
       const initialBalance = decryptValue(await token.connect(owner.wallet).balanceOf(), owner.userKey)
 
-      await (await token.connect(owner.wallet).approveClear(contractAddress, bidAmount, { gasLimit })).wait()
+      await sendTransaction(token.connect(owner.wallet).approveClear, contractAddress, bidAmount)
 
       const func = contract.connect(owner.wallet).bid
       const selector = func.fragment.selector
-      const { ctInt, signature } = await prepareIT(BigInt(bidAmount), owner, contractAddress, selector)
-      await (await func(ctInt, signature, { gasLimit })).wait()
+      const { ctInt, signature } = await prepareItUint64(BigInt(bidAmount), owner, contractAddress, selector)
+      await sendTransaction(func, ctInt, signature)
 
       await expectBalance(token, initialBalance - bidAmount, owner)
 
-      expectBid(contract, bidAmount, owner)
+      await expectBid(contract, bidAmount, owner)
     })
 
     it(`Increase Bid ${bidAmount * 2}`, async function () {
@@ -99,26 +125,112 @@ describe("Confidential Auction", function () {
 
       const initialBalance = decryptValue(await token.connect(owner.wallet).balanceOf(), owner.userKey)
 
-      await (await token.connect(owner.wallet).approveClear(contractAddress, bidAmount * 2, { gasLimit })).wait()
+      await sendTransaction(token.connect(owner.wallet).approveClear, contractAddress, bidAmount * 2)
 
       const func = contract.connect(owner.wallet).bid
       const selector = func.fragment.selector
-      const { ctInt, signature } = await prepareIT(BigInt(bidAmount * 2), owner, contractAddress, selector)
-      await (await func(ctInt, signature, { gasLimit })).wait()
+      const { ctInt, signature } = await prepareItUint64(BigInt(bidAmount * 2), owner, contractAddress, selector)
+      await sendTransaction(func, ctInt, signature)
 
       await expectBalance(token, initialBalance - bidAmount, owner)
 
-      expectBid(contract, bidAmount * 2, owner)
+      await expectBid(contract, bidAmount * 2, owner)
     })
 
-    it(`Winner`, async function () {
+    it("Claiming before the end reverts with TooEarly", async function () {
       const { contract, owner } = deployment
 
-      await (await contract.connect(owner.wallet).stop({ gasLimit })).wait()
+      await expect(sendTransaction(contract.connect(owner.wallet).claim)).to.be.revertedOnChainWithError(
+        "TooEarly",
+        await contract.endTime()
+      )
+    })
+
+    it("Only the contract owner can stop the auction", async function () {
+      const { contract, otherAccount } = deployment
+
+      await expect(sendTransaction(contract.connect(otherAccount.wallet).stop)).to.be.revertedOnChain(
+        "ConfidentialAuction: caller is not the contract owner"
+      )
+      expect(await contract.manuallyStopped()).to.equal(false)
+    })
+
+    it(`Winner`, async function () {
+      const { contract, owner, otherAccount } = deployment
+
+      await sendTransaction(contract.connect(owner.wallet).stop)
+
+      await expect(contract.connect(owner.wallet).doIHaveHighestBid.staticCall()).to.decryptTo(true, owner)
+      await expect(contract.connect(otherAccount.wallet).doIHaveHighestBid.staticCall()).to.decryptTo(
+        false,
+        otherAccount
+      )
+    })
+
+    it("Bidding once stopped reverts with TooLate", async function () {
+      const { contract, contractAddress, owner } = deployment
 
-      const ctBool = await contract.connect(owner.wallet).doIHaveHighestBid.staticCall({ gasLimit })
-      let bool = decryptValue(ctBool, owner.userKey)
-      expect(bool).to.eq(1)
+      const func = contract.connect(owner.wallet).bid
+      const { ctInt, signature } = await prepareItUint64(
+        BigInt(bidAmount),
+        owner,
+        contractAddress,
+        func.fragment.selector
+      )
+      const error = await transactionError(sendTransaction(func, ctInt, signature))
+      expect(error?.revert?.name).to.equal("TooLate")
+      expect(error?.message).to.match(
+        /^ConfidentialAuction\.bid\(uint256,bytes\) (would revert|reverted) with TooLate\(\d+\)$/
+      )
     })
   })
+
+  describe("Scenarios", function () {
+    const scenarios: { title: string; bids: ScriptedBid[] }[] = [
+      {
+        title: "the first of three bidders bids the most and wins",
+        bids: [
+          { bidder: 0, amount: BigInt(30) },
+          { bidder: 1, amount: BigInt(20) },
+          { bidder: 2, amount: BigInt(10) },
+        ],
+      },
+      {
+        title: "the leader raises its bid over the others and pays the raised amount",
+        bids: [
+          { bidder: 0, amount: BigInt(10) },
+          { bidder: 1, amount: BigInt(5) },
+          { bidder: 0, amount: BigInt(25) },
+          { bidder: 2, amount: BigInt(7) },
+        ],
+      },
+      {
+        title: "a bidder that is not leading raises its bid and still loses",
+        bids: [
+          { bidder: 0, amount: BigInt(10) },
+          { bidder: 1, amount: BigInt(5) },
+          { bidder: 1, amount: BigInt(8) },
+        ],
+      },
+      {
+        title: "a higher newcomer takes the lead and wins",
+        bids: [
+          { bidder: 0, amount: BigInt(10) },
+          { bidder: 1, amount: BigInt(20) },
+        ],
+      },
+    ]
+
+    for (const { title, bids } of scenarios) {
+      const deviation = knownAuctionDeviation(bids)
+      const test = deviation ? knownFailure : it
+      test(deviation ? `${title} (known failure: ${deviation})` : title, async function () {
+        const { client, owner, beneficiary, bidders } = await deployScenario()
+
+        const { actual, expected } = await runAuctionScenario(client, { owner, beneficiary, bidders, bids })
+
+        expect(actual).to.deep.equal(expected)
+      })
+    }
+  })
 })
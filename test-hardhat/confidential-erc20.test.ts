@@ -1,22 +1,27 @@
 import hre from "hardhat"
 import { expect } from "chai"
-import { type ConfidentialAccount, decryptValue, prepareIT } from "@coti-io/coti-sdk-typescript"
-import { setupAccounts } from "./util/onboard"
+import { type ConfidentialAccount, decryptValue } from "@coti-io/coti-sdk-typescript"
+import { setupAccounts, setupNamedAccounts } from "./util/onboard"
+import { withConfidential } from "./util/confidential-contract"
+import { deployModule } from "./util/deployments"
+import { BalanceInvariantError, BalanceInvariants } from "./util/balance-invariants"
+import { sendTransaction } from "./util/transactions"
+import { useFixture } from "./util/fixtures"
+import ERC20ExampleModule from "../ignition/modules/ERC20Example"
 
 export const deploymentInfo = { name: "My Confidential Token", symbol: "CTOK", decimals: 5, initialSupply: 500000000 } as const
-const gasLimit = 12000000
 
 async function deploy() {
   const [owner, otherAccount] = await setupAccounts()
 
-  const tokenContract = await hre.ethers.getContractFactory("ERC20Example")
   const { name, symbol, initialSupply } = deploymentInfo
-  const token = await tokenContract
-    .connect(owner.wallet)
-    .deploy(name, symbol, initialSupply, { gasLimit, from: owner.wallet.address })
-  const contract = await token.waitForDeployment()
-  // const contract = await hre.ethers.getContractAt("ERC20Example", "0x19c0bb1bf8b923855598405ab9cc88c4a8aa9540")
-  return { contract, contractAddress: await contract.getAddress(), owner, otherAccount }
+  const { addresses } = await deployModule(ERC20ExampleModule, [owner, otherAccount], {
+    parameters: { ERC20Example: { name, symbol, initialSupply } },
+    fresh: true,
+  })
+  const token = await hre.ethers.getContractAt("ERC20Example", addresses.token, owner.wallet)
+  const contract = withConfidential(token, "ERC20Example")
+  return { contract, contractAddress: addresses.token, owner, otherAccount }
 }
 
 async function expectBalance(
@@ -41,21 +46,32 @@ async function expectAllowance(
 }
 
 describe("Confidential ERC20", function () {
-  let deployment: Awaited<ReturnType<typeof deploy>>
+  // every test starts from the initial supply held by the owner
+  const deployment = useFixture(deploy)
+
+  // owner, otherAccount and the holders of "Transfer - clear to several holders" are the only ones ever paid
+  let invariants: BalanceInvariants
 
-  before(async function () {
-    deployment = await deploy()
+  beforeEach(async function () {
+    invariants = new BalanceInvariants(deployment().contract, await setupAccounts(4))
+    await invariants.start()
+  })
+
+  // every transaction of the suite is meant to move tokens, except the ones a test checks itself
+  afterEach(async function () {
+    const checks = await invariants.check()
+    expect(checks.flatMap(({ noOps }) => noOps)).to.deep.equal([])
   })
 
   describe("Deployment", function () {
     it("Deployed address should not be undefined", async function () {
-      const { contractAddress } = deployment
+      const { contractAddress } = deployment()
 
       expect(contractAddress).to.not.equal(undefined)
     })
 
     it("Owner initial balance", async function () {
-      const { contract, owner } = deployment
+      const { contract, owner } = deployment()
 
       const my_CTBalance = await contract.balanceOf()
 
@@ -64,110 +80,157 @@ describe("Confidential ERC20", function () {
     })
 
     it("Function 'name' should be correct", async function () {
-      expect(await deployment.contract.name()).to.equal(deploymentInfo.name)
+      expect(await deployment().contract.name()).to.equal(deploymentInfo.name)
     })
 
     it("Function 'symbol' should be correct", async function () {
-      expect(await deployment.contract.symbol()).to.equal(deploymentInfo.symbol)
+      expect(await deployment().contract.symbol()).to.equal(deploymentInfo.symbol)
     })
 
     it("Function 'decimals' should be correct", async function () {
-      expect(await deployment.contract.decimals()).to.equal(deploymentInfo.decimals)
+      expect(await deployment().contract.decimals()).to.equal(deploymentInfo.decimals)
     })
 
     it("Function 'totalSupply' should be correct", async function () {
-      expect(await deployment.contract.totalSupply()).to.equal(deploymentInfo.initialSupply)
+      expect(await deployment().contract.totalSupply()).to.equal(deploymentInfo.initialSupply)
     })
   })
 
   const transferAmount = 5
   describe(`Transfer ${transferAmount}`, function () {
     it("Transfer - clear", async function () {
-      const { contract, owner, otherAccount } = deployment
-      const initialBalance = decryptValue(await deployment.contract.balanceOf(), owner.userKey)
+      const { contract, owner, otherAccount } = deployment()
+      const initialBalance = decryptValue(await contract.balanceOf(), owner.userKey)
 
-      await (
-        await contract
-          .connect(owner.wallet)
-          ["transfer(address,uint64,bool)"](otherAccount.wallet.address, transferAmount, true, { gasLimit })
-      ).wait()
+      await sendTransaction(
+        contract.connect(owner.wallet)["transfer(address,uint64,bool)"],
+        otherAccount.wallet.address,
+        transferAmount,
+        true
+      )
 
       await expectBalance(contract, initialBalance - transferAmount, owner)
 
-      await (
-        await contract
-          .connect(owner.wallet)
-          ["transfer(address,uint64,bool)"](otherAccount.wallet.address, transferAmount, true, { gasLimit })
-      ).wait()
+      await sendTransaction(
+        contract.connect(owner.wallet)["transfer(address,uint64,bool)"],
+        otherAccount.wallet.address,
+        transferAmount,
+        true
+      )
 
       await expectBalance(contract, initialBalance - 2 * transferAmount, owner)
     })
 
     it("Transfer - Confidential", async function () {
-      const { contract, contractAddress, owner, otherAccount } = deployment
-      const initialBalance = decryptValue(await deployment.contract.balanceOf(), owner.userKey)
-
-      const func = contract.connect(owner.wallet)["transfer(address,uint256,bytes,bool)"]
-      const selector = func.fragment.selector
-      const { ctInt, signature } = await prepareIT(BigInt(transferAmount), owner, contractAddress, selector)
+      const { contract, owner, otherAccount } = deployment()
+      const initialBalance = decryptValue(await contract.balanceOf(), owner.userKey)
 
-      await (await func(otherAccount.wallet.address, ctInt, signature, false, { gasLimit })).wait()
+      await contract.confidential(owner).transfer(otherAccount.wallet.address, transferAmount)
       await expectBalance(contract, initialBalance - transferAmount, owner)
     })
 
+    it("Transfer - Confidential client decodes the receipt and decrypts the balance", async function () {
+      const { contract, owner, otherAccount } = deployment()
+      const client = contract.confidential(owner)
+      const initialBalance = await client.balanceOf()
+
+      const { receipt, events } = await client.transfer(otherAccount.wallet.address, BigInt(transferAmount))
+
+      expect(receipt.status).to.equal(1)
+      expect(events.map((event) => event.name)).to.include("Transfer")
+      expect(await client.balanceOf()).to.equal(BigInt(initialBalance) - BigInt(transferAmount))
+    })
+
     it("TransferFrom - clear without giving allowance should fail", async function () {
-      const { contract, owner, otherAccount } = deployment
-      const initialBalance = decryptValue(await deployment.contract.balanceOf(), owner.userKey)
+      const { contract, owner, otherAccount } = deployment()
+      const initialBalance = decryptValue(await contract.balanceOf(), owner.userKey)
 
-      await (await contract.connect(owner.wallet).approveClear(otherAccount.wallet.address, 0, { gasLimit })).wait()
+      await sendTransaction(contract.connect(owner.wallet).approveClear, otherAccount.wallet.address, 0)
 
       const func = contract.connect(owner.wallet)["transferFrom(address,address,uint64,bool)"]
-      await (await func(owner.wallet.address, otherAccount.wallet.address, transferAmount, true, { gasLimit })).wait()
+      const receipt = await sendTransaction(func, owner.wallet.address, otherAccount.wallet.address, transferAmount, true)
       await expectBalance(contract, initialBalance, owner)
+
+      const checks = await invariants.check()
+      expect(checks.flatMap(({ noOps }) => noOps.map(({ transactionHash }) => transactionHash))).to.deep.equal([
+        receipt.hash,
+      ])
     })
 
     it("TransferFrom - clear", async function () {
-      const { contract, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      await (
-        await contract.connect(owner.wallet).approveClear(otherAccount.wallet.address, transferAmount, { gasLimit })
-      ).wait()
+      await sendTransaction(contract.connect(owner.wallet).approveClear, otherAccount.wallet.address, transferAmount)
 
       const func = contract.connect(owner.wallet)["transferFrom(address,address,uint64,bool)"]
-      await (await func(owner.wallet.address, otherAccount.wallet.address, transferAmount, true, { gasLimit })).wait()
+      await sendTransaction(func, owner.wallet.address, otherAccount.wallet.address, transferAmount, true)
     })
 
     it("TransferFrom - Confidential", async function () {
-      const { contract, contractAddress, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      const initialBalance = decryptValue(await deployment.contract.balanceOf(), owner.userKey)
+      const initialBalance = decryptValue(await contract.balanceOf(), owner.userKey)
 
-      await (
-        await contract.connect(owner.wallet).approveClear(otherAccount.wallet.address, transferAmount, { gasLimit })
-      ).wait()
+      await sendTransaction(contract.connect(owner.wallet).approveClear, otherAccount.wallet.address, transferAmount)
 
-      const func = contract.connect(owner.wallet)["transferFrom(address,address,uint256,bytes,bool)"]
-      const selector = func.fragment.selector
-      let { ctInt, signature } = await prepareIT(BigInt(transferAmount), owner, contractAddress, selector)
-      await (
-        await func(owner.wallet.address, otherAccount.wallet.address, ctInt, signature, false, { gasLimit })
-      ).wait()
+      await contract
+        .confidential(owner)
+        .transferFrom(owner.wallet.address, otherAccount.wallet.address, transferAmount)
 
       await expectBalance(contract, initialBalance - transferAmount, owner)
     })
 
     it("Approve/Allowance - Confidential", async function () {
-      const { contract, contractAddress, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      await (await contract.connect(owner.wallet).approveClear(otherAccount.wallet.address, 0, { gasLimit })).wait()
+      await sendTransaction(contract.connect(owner.wallet).approveClear, otherAccount.wallet.address, 0)
       await expectAllowance(contract, 0, owner, otherAccount.wallet.address)
 
-      const func = contract.connect(owner.wallet)["approve(address,uint256,bytes)"]
-      const selector = func.fragment.selector
-      const { ctInt, signature } = await prepareIT(BigInt(transferAmount), owner, contractAddress, selector)
-      await (await func(otherAccount.wallet.address, ctInt, signature, { gasLimit })).wait()
+      await contract.confidential(owner).approve(otherAccount.wallet.address, transferAmount)
 
       await expectAllowance(contract, transferAmount, owner, otherAccount.wallet.address)
     })
+
+    it("Transfer - clear to oneself breaks the supply invariant", async function () {
+      const { contract, owner } = deployment()
+
+      // ConfidentialERC20 writes the sender balance then the recipient one, so the owner is credited without a debit
+      const func = contract.connect(owner.wallet)["transfer(address,uint64,bool)"]
+      await sendTransaction(func, owner.wallet.address, transferAmount, true)
+
+      const error = await invariants.check().then(() => undefined, (error) => error)
+      expect(error).to.be.instanceOf(BalanceInvariantError)
+      expect(error.violations).to.deep.equal([
+        `tracked balances add up to ${deploymentInfo.initialSupply + transferAmount}, totalSupply() is ${deploymentInfo.initialSupply}`,
+      ])
+
+      // the supply stays broken, nothing is left for afterEach to check
+      invariants = new BalanceInvariants(contract, [], { complete: false })
+    })
+
+    it("Transfer - clear to several holders", async function () {
+      const { contract, owner } = deployment()
+      const holders = Object.values(await setupNamedAccounts(["holder1", "holder2", "holder3"], { skip: 1 }))
+
+      // a holder that never received tokens has no ciphertext yet
+      const initialBalances = await Promise.all(
+        holders.map(async (holder) => {
+          const ctBalance = await contract.connect(holder.wallet).balanceOf()
+          return ctBalance === BigInt(0) ? 0 : decryptValue(ctBalance, holder.userKey)
+        })
+      )
+      for (const holder of holders) {
+        await sendTransaction(
+          contract.connect(owner.wallet)["transfer(address,uint64,bool)"],
+          holder.wallet.address,
+          transferAmount,
+          true
+        )
+      }
+
+      for (const [i, holder] of holders.entries()) {
+        await expectBalance(contract, initialBalances[i] + transferAmount, holder)
+      }
+    })
   })
 })
@@ -1,19 +1,20 @@
 import hre from "hardhat"
 import { expect } from "chai"
-import { decryptValue, prepareIT } from "@coti-io/coti-sdk-typescript"
 import { setupAccounts } from "./util/onboard"
-
-const gasLimit = 12000000
+import { deployModule } from "./util/deployments"
+import { IdentityRegistryClient } from "./util/identity-registry"
+import type { CodecValue } from "./util/word-codec"
+import ConfidentialIdentityRegistryModule from "../ignition/modules/ConfidentialIdentityRegistry"
 
 async function deploy() {
-  const [owner, otherAccount] = await setupAccounts()
-
-  const factory = await hre.ethers.getContractFactory("ConfidentialIdentityRegistry")
-  const contract = await factory.connect(owner.wallet).deploy({ gasLimit })
-  await contract.waitForDeployment()
-  // const contract = await hre.ethers.getContractAt("ConfidentialAuction", "0xFA71F49669d65dbb91d268780828cB2449CB473c")
-  //   console.log(`contractAddress ${await contract.getAddress()}`)
-  return { contract, contractAddress: await contract.getAddress(), owner, otherAccount }
+  const [owner, otherAccount, verifier] = await setupAccounts(3)
+
+  // DIDs can only be registered once and the suite expects no access granted yet, so every run needs its own
+  const { addresses } = await deployModule(ConfidentialIdentityRegistryModule, [owner, otherAccount], { fresh: true })
+  const contract = await hre.ethers.getContractAt("ConfidentialIdentityRegistry", addresses.registry, owner.wallet)
+  const deploymentBlock = await hre.ethers.provider.getBlockNumber()
+  const client = new IdentityRegistryClient(contract)
+  return { contract, client, contractAddress: addresses.registry, owner, otherAccount, verifier, deploymentBlock }
 }
 
 describe("Confidential Identity", function () {
@@ -21,45 +22,121 @@ describe("Confidential Identity", function () {
 
   before(async function () {
     deployment = await deploy()
+    const { client, owner, otherAccount } = deployment
 
-    const tx1 = await deployment.contract.addRegistrar(deployment.owner.wallet.address, 1, { gasLimit })
-    const tx2 = await deployment.contract.addDid(deployment.owner.wallet.address, { gasLimit })
-    const tx3 = await deployment.contract.addDid(deployment.otherAccount.wallet.address, { gasLimit })
-    await Promise.all([tx1, tx2, tx3].map((tx) => tx.wait()))
+    await client.onboardRegistrar(owner, owner.wallet.address, 1)
+    await client.registerDids(owner, [owner.wallet.address, otherAccount.wallet.address])
+  })
+
+  it("Registrar onboarding and DID registration are idempotent", async function () {
+    const { client, contract, owner, otherAccount } = deployment
+    const blockNumber = await hre.ethers.provider.getBlockNumber()
+
+    await client.onboardRegistrar(owner, owner.wallet.address, 1)
+    await client.registerDids(owner, [owner.wallet.address, otherAccount.wallet.address])
+
+    expect(await hre.ethers.provider.getBlockNumber()).to.equal(blockNumber)
+    expect(await contract.getRegistrar(otherAccount.wallet.address)).to.equal(1)
   })
 
   const idAge = 18
   it(`Set Age Id ${idAge}`, async function () {
-    const { contract, contractAddress, owner } = deployment
+    const { client, owner } = deployment
 
-    const func = contract.connect(owner.wallet).setIdentifier
-    const selector = func.fragment.selector
-    const { ctInt, signature } = await prepareIT(BigInt(idAge), owner, contractAddress, selector)
-    await (await func(owner.wallet.address, "age", ctInt, signature, { gasLimit })).wait()
+    await client.issueIdentifiers(owner, owner.wallet.address, { age: idAge })
 
-    await (await contract.grantAccess(deployment.owner.wallet.address, ["age"], { gasLimit })).wait()
-    const ctAge = await contract.getIdentifier.staticCall(deployment.owner.wallet.address, "age", { gasLimit })
-    expect(decryptValue(ctAge, owner.userKey)).to.eq(idAge)
+    await client.grantAccess(owner, owner.wallet.address, ["age"])
+    expect(await client.getIdentifier(owner, owner.wallet.address, "age")).to.eq(BigInt(idAge))
   })
 
   it("Should revert when trying to get identifier without access", async function () {
-    const { contract, otherAccount, owner } = deployment
+    const { client, otherAccount, owner } = deployment
 
-    await expect(
-      contract
-        .connect(otherAccount.wallet)
-        .getIdentifier.staticCall(owner.wallet.address, "age", { gasLimit, from: otherAccount.wallet.address })
-    ).to.be.revertedWith("User didn't give you permission to access this identifier.")
+    await expect(client.getIdentifier(otherAccount, owner.wallet.address, "age")).to.be.revertedWith(
+      "User didn't give you permission to access this identifier."
+    )
   })
 
   it("Should get identifier if access is granted", async function () {
-    const { contract, otherAccount, owner } = deployment
+    const { client, otherAccount, owner } = deployment
+
+    await client.grantAccess(owner, otherAccount.wallet.address, ["age"])
+
+    expect(await client.getIdentifier(otherAccount, owner.wallet.address, "age")).to.eq(BigInt(idAge))
+  })
+
+  const attributes: Record<string, CodecValue> = {
+    country: { type: "string", value: "Côte d'Ivoire" },
+    dateOfBirth: { type: "date", value: new Date("1990-04-12T00:00:00Z") },
+  }
+  it("Issues several identifiers of a DID in one batch, strings and dates across several identifiers", async function () {
+    const { client, owner, otherAccount } = deployment
+
+    const identifiers = await client.issueIdentifiers(owner, otherAccount.wallet.address, {
+      ...attributes,
+      age: 42,
+      level: BigInt(3),
+    })
+    expect(identifiers).to.deep.equal([
+      "country",
+      "country[1]",
+      "country[2]",
+      "dateOfBirth",
+      "dateOfBirth[1]",
+      "age",
+      "level",
+    ])
+
+    await client.grantAccess(otherAccount, otherAccount.wallet.address, identifiers)
+    for (const [identifier, value] of Object.entries(attributes)) {
+      expect(await client.getIdentifierValue(otherAccount, otherAccount.wallet.address, identifier)).to.deep.equal(
+        value
+      )
+    }
+    expect(await client.getIdentifier(otherAccount, otherAccount.wallet.address, "age")).to.eq(BigInt(42))
+  })
+
+  it("A verifier reads with its own key only what the holder granted, until it is revoked", async function () {
+    const { client, otherAccount, verifier } = deployment
+    const holder = otherAccount.wallet.address
+
+    await client.grantAccess(otherAccount, verifier.wallet.address, ["country", "country[1]", "country[2]", "age"])
+    expect(await client.getIdentifierValue(verifier, holder, "country")).to.deep.equal(attributes.country)
+    expect(await client.getIdentifier(verifier, holder, "age")).to.eq(BigInt(42))
+    await expect(client.getIdentifier(verifier, holder, "level")).to.be.revertedWith(
+      "User didn't give you permission to access this identifier."
+    )
+
+    await client.revokeAccess(otherAccount, verifier.wallet.address, ["age"])
+    await expect(client.getIdentifier(verifier, holder, "age")).to.be.revertedWith(
+      "User didn't give you permission to access this identifier."
+    )
+    expect(await client.getIdentifierValue(verifier, holder, "country")).to.deep.equal(attributes.country)
+  })
+
+  it("Rebuilds the permission matrix from the grant and revoke transactions", async function () {
+    const { client, owner, otherAccount, verifier, deploymentBlock } = deployment
 
-    await (await contract.connect(owner.wallet).grantAccess(otherAccount.wallet.address, ["age"], { gasLimit })).wait()
+    const { owner: registryOwner, permissions } = await client.permissionMatrix(deploymentBlock)
 
-    const ctAge = await contract
-      .connect(otherAccount.wallet)
-      .getIdentifier.staticCall(owner.wallet.address, "age", { gasLimit, from: otherAccount.wallet.address })
-    expect(decryptValue(ctAge, otherAccount.userKey)).to.eq(idAge)
+    expect(registryOwner).to.equal(owner.wallet.address)
+    expect(permissions).to.deep.equal({
+      [owner.wallet.address]: {
+        [owner.wallet.address]: ["age"],
+        [otherAccount.wallet.address]: ["age"],
+      },
+      [otherAccount.wallet.address]: {
+        [otherAccount.wallet.address]: [
+          "age",
+          "country",
+          "country[1]",
+          "country[2]",
+          "dateOfBirth",
+          "dateOfBirth[1]",
+          "level",
+        ],
+        [verifier.wallet.address]: ["country", "country[1]", "country[2]"],
+      },
+    })
   })
 })
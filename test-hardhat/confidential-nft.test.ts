@@ -1,66 +1,68 @@
 import hre from "hardhat"
 import { expect } from "chai"
-import { decryptValue, prepareIT } from "@coti-io/coti-sdk-typescript"
+import { decryptValue } from "@coti-io/coti-sdk-typescript"
 import { setupAccounts } from "./util/onboard"
-
-const gasLimit = 12000000
+import { deployModule } from "./util/deployments"
+import { sendTransaction } from "./util/transactions"
+import { useFixture } from "./util/fixtures"
+import "./util/matchers"
+import { decryptWords, encryptWords } from "./util/word-codec"
+import { inspectCiphertext } from "./util/ciphertext-inspector"
+import { NftPortfolioClient } from "./util/nft-portfolio"
+import { prepareItUint64 } from "./util/mpc-values"
+import NFTExampleModule from "../ignition/modules/NFTExample"
 
 async function deploy() {
   const [owner, otherAccount] = await setupAccounts()
 
-  const factory = await hre.ethers.getContractFactory("NFTExample")
-  const contract = await factory.connect(owner.wallet).deploy({ gasLimit })
-  await contract.waitForDeployment()
-  // const contract = await hre.ethers.getContractAt("NFTExample", "0x1Da1088ae90438f137826F7F4902914B503765dA")
-  // console.log(`contractAddress ${await contract.getAddress()}`)
-  return { contract, contractAddress: await contract.getAddress(), owner, otherAccount }
+  const { addresses } = await deployModule(NFTExampleModule, [owner, otherAccount], { fresh: true })
+  const contract = await hre.ethers.getContractAt("NFTExample", addresses.nft, owner.wallet)
+  return { contract, contractAddress: addresses.nft, owner, otherAccount }
 }
 
 describe("Confidential NFT", function () {
-  let deployment: Awaited<ReturnType<typeof deploy>>
-
-  before(async function () {
-    deployment = await deploy()
-  })
+  // every test starts with token 0 minted to the owner, without a URI
+  const deployment = useFixture(deploy)
 
   describe("Deployment", function () {
     it("Deployed address should be a valid Ethereum address", async function () {
-      expect(hre.ethers.isAddress(deployment.contractAddress)).to.eq(true)
+      expect(hre.ethers.isAddress(deployment().contractAddress)).to.eq(true)
     })
 
     it("Name should match deployment name", async function () {
-      expect(await deployment.contract.name()).to.equal("Example")
+      expect(await deployment().contract.name()).to.equal("Example")
     })
 
     it("Symbol should match deployment symbol", async function () {
-      expect(await deployment.contract.symbol()).to.equal("EXL")
+      expect(await deployment().contract.symbol()).to.equal("EXL")
     })
 
     it("Owner of first token should be deployer", async function () {
       const tokenId = 0
-      expect(await deployment.contract.ownerOf(tokenId)).to.equal(deployment.owner.wallet.address)
+      expect(await deployment().contract.ownerOf(tokenId)).to.equal(deployment().owner.wallet.address)
     })
 
     it("Total supply should be 1", async function () {
-      expect(await deployment.contract.totalSupply()).to.equal(1)
+      expect(await deployment().contract.totalSupply()).to.equal(1)
     })
 
     it("Contract owner should be the owner", async function () {
-      expect(await deployment.contract.owner()).to.equal(deployment.owner.wallet.address)
+      expect(await deployment().contract.owner()).to.equal(deployment().owner.wallet.address)
     })
   })
 
   describe("Minting", function () {
     it("Should mint new token to otherAccount", async function () {
-      const { contract, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      const startTokenIds = await deployment.contract.totalSupply()
+      const startTokenIds = await contract.totalSupply()
 
-      await expect(
-        (await contract.connect(owner.wallet).mint(otherAccount.wallet.address, { gasLimit })).wait()
-      ).to.emit(contract, "Minted")
+      await expect(sendTransaction(contract.connect(owner.wallet).mint, otherAccount.wallet.address)).to.emit(
+        contract,
+        "Minted"
+      )
 
-      const endTokenIds = await deployment.contract.totalSupply()
+      const endTokenIds = await contract.totalSupply()
 
       const newTokenId = startTokenIds
       expect(await contract.ownerOf(newTokenId)).to.equal(otherAccount.wallet.address)
@@ -68,73 +70,68 @@ describe("Confidential NFT", function () {
     })
 
     it("Should fail to mint if not owner", async function () {
-      const { contract, otherAccount } = deployment
+      const { contract, otherAccount } = deployment()
 
-      const tx = await contract.connect(otherAccount.wallet).mint(otherAccount.wallet.address, { gasLimit })
-      let reverted = true
-      try {
-        await tx.wait()
-        reverted = false
-      } catch (error) {}
-      expect(reverted).to.eq(true, "Should have reverted")
+      await expect(
+        sendTransaction(contract.connect(otherAccount.wallet).mint, otherAccount.wallet.address)
+      ).to.be.revertedOnChainWithError("OwnableUnauthorizedAccount", otherAccount.wallet.address)
     })
   })
 
   describe("Transfers", function () {
     it("Should transfer token to other account", async function () {
-      const { contract, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      const tokenId = await deployment.contract.totalSupply()
-      await (await contract.connect(owner.wallet).mint(owner.wallet.address, { gasLimit })).wait()
+      const tokenId = await contract.totalSupply()
+      await sendTransaction(contract.connect(owner.wallet).mint, owner.wallet.address)
 
-      await (await contract.connect(owner.wallet).approve(otherAccount.wallet.address, tokenId, { gasLimit })).wait()
+      await sendTransaction(contract.connect(owner.wallet).approve, otherAccount.wallet.address, tokenId)
 
-      await (
-        await contract
-          .connect(owner.wallet)
-          .transferFrom(owner.wallet.address, otherAccount.wallet.address, tokenId, { gasLimit })
-      ).wait()
+      await sendTransaction(
+        contract.connect(owner.wallet).transferFrom,
+        owner.wallet.address,
+        otherAccount.wallet.address,
+        tokenId
+      )
       expect(await contract.ownerOf(tokenId)).to.equal(otherAccount.wallet.address)
     })
 
     it("Should fail transfer token to other account for when no allowance", async function () {
-      const { contract, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      const tokenId = await deployment.contract.totalSupply()
-      await (await contract.connect(owner.wallet).mint(owner.wallet.address, { gasLimit })).wait()
+      const tokenId = await contract.totalSupply()
+      await sendTransaction(contract.connect(owner.wallet).mint, owner.wallet.address)
 
-      const tx = await contract
-        .connect(otherAccount.wallet)
-        .transferFrom(owner.wallet.address, otherAccount.wallet.address, tokenId, { gasLimit })
-      let reverted = true
-      try {
-        await tx.wait()
-        reverted = false
-      } catch (error) {}
-      expect(reverted).to.eq(true, "Should have reverted")
+      await expect(
+        sendTransaction(
+          contract.connect(otherAccount.wallet).transferFrom,
+          owner.wallet.address,
+          otherAccount.wallet.address,
+          tokenId
+        )
+      ).to.be.revertedOnChainWithError("ERC721InsufficientApproval", otherAccount.wallet.address, tokenId)
     })
 
     it("Should fail to transfer from non-owner", async function () {
-      const { contract, owner, otherAccount } = deployment
+      const { contract, owner, otherAccount } = deployment()
 
-      const tokenId = await deployment.contract.totalSupply()
-      await (await contract.connect(owner.wallet).mint(owner.wallet.address, { gasLimit })).wait()
+      const tokenId = await contract.totalSupply()
+      await sendTransaction(contract.connect(owner.wallet).mint, owner.wallet.address)
 
-      const tx = await contract
-        .connect(otherAccount.wallet)
-        .transferFrom(owner.wallet.address, otherAccount.wallet.address, tokenId, { gasLimit })
-      let reverted = true
-      try {
-        await tx.wait()
-        reverted = false
-      } catch (error) {}
-      expect(reverted).to.eq(true, "Should have reverted")
+      await expect(
+        sendTransaction(
+          contract.connect(otherAccount.wallet).transferFrom,
+          owner.wallet.address,
+          otherAccount.wallet.address,
+          tokenId
+        )
+      ).to.be.revertedOnChainWithError("ERC721InsufficientApproval", otherAccount.wallet.address, tokenId)
     })
   })
 
   describe("URI", function () {
     it("should return 0 for token URI if not set", async function () {
-      const { contract, owner } = deployment
+      const { contract, owner } = deployment()
 
       const tokenId = 0
       const ctURI = await contract.connect(owner.wallet).tokenURI(tokenId)
@@ -143,54 +140,205 @@ describe("Confidential NFT", function () {
     })
 
     it("should allow owner to set token URI", async function () {
-      const { contract, contractAddress, owner } = deployment
+      const { contract, contractAddress, owner } = deployment()
 
       const tokenId = 0
       const uri = 11
 
       const func = contract.connect(owner.wallet).setTokenURI
       const selector = func.fragment.selector
-      let { ctInt, signature } = await prepareIT(BigInt(uri), owner, contractAddress, selector)
-      await (await func(tokenId, ctInt, signature, { gasLimit })).wait()
+      let { ctInt, signature } = await prepareItUint64(BigInt(uri), owner, contractAddress, selector)
+      await sendTransaction(func, tokenId, ctInt, signature)
 
       const ctRetrievedUri = await contract.tokenURI(tokenId)
       expect(decryptValue(ctRetrievedUri, owner.userKey)).to.equal(uri)
     })
 
     it("should revert when non-owner tries to set token URI", async function () {
-      const { contract, contractAddress, otherAccount } = deployment
+      const { contract, contractAddress, owner, otherAccount } = deployment()
 
       const tokenId = 0
       const uri = 22
 
       const func = contract.connect(otherAccount.wallet).setTokenURI
       const selector = func.fragment.selector
-      let { ctInt, signature } = await prepareIT(BigInt(uri), otherAccount, contractAddress, selector)
-
-      const tx = await func(tokenId, ctInt, signature, { gasLimit })
-      let reverted = true
-      try {
-        await tx.wait()
-        reverted = false
-      } catch (error) {}
-      expect(reverted).to.eq(true, "Should have reverted")
+      let { ctInt, signature } = await prepareItUint64(BigInt(uri), otherAccount, contractAddress, selector)
+
+      await expect(sendTransaction(func, tokenId, ctInt, signature)).to.be.revertedOnChainWithError(
+        "ERC721IncorrectOwner",
+        otherAccount.wallet.address,
+        tokenId,
+        owner.wallet.address
+      )
     })
 
     it("should emit MetadataUpdate event on setting token URI", async function () {
-      const { contract, contractAddress, owner } = deployment
+      const { contract, contractAddress, owner } = deployment()
 
       const tokenId = 0
       const uri = 11
 
       const func = contract.connect(owner.wallet).setTokenURI
       const selector = func.fragment.selector
-      let { ctInt, signature } = await prepareIT(BigInt(uri), owner, contractAddress, selector)
-      await expect((await func(tokenId, ctInt, signature, { gasLimit })).wait())
+      let { ctInt, signature } = await prepareItUint64(BigInt(uri), owner, contractAddress, selector)
+      await expect(sendTransaction(func, tokenId, ctInt, signature))
         .to.emit(contract, "MetadataUpdate")
         .withArgs(tokenId)
 
       const ctRetrievedUri = await contract.tokenURI(tokenId)
       expect(decryptValue(ctRetrievedUri, owner.userKey)).to.equal(uri)
     })
+
+    it("should store a URI longer than one word and re-encrypt it for the new owner", async function () {
+      const { contract, contractAddress, owner, otherAccount } = deployment()
+      const uri = "https://example.com/nft/0.json"
+
+      const tokenId = await contract.totalSupply()
+      await sendTransaction(contract.connect(owner.wallet).mint, owner.wallet.address)
+
+      const func = contract.connect(owner.wallet).setTokenURIWords
+      const { ctInts, signatures } = await encryptWords(
+        { type: "string", value: uri },
+        owner,
+        contractAddress,
+        func.fragment.selector
+      )
+      await sendTransaction(func, tokenId, ctInts, signatures)
+
+      const ownerWords = await contract.tokenURIWords(tokenId)
+      expect(decryptWords([...ownerWords], owner.userKey)).to.deep.equal({ type: "string", value: uri })
+
+      await sendTransaction(
+        contract.connect(owner.wallet).transferFrom,
+        owner.wallet.address,
+        otherAccount.wallet.address,
+        tokenId
+      )
+
+      const newOwnerWords = await contract.tokenURIWords(tokenId)
+      expect(decryptWords([...newOwnerWords], otherAccount.userKey)).to.deep.equal({ type: "string", value: uri })
+    })
+
+    it("should refuse a URI of more words than a transfer re-encrypts", async function () {
+      const { contract, contractAddress, owner } = deployment()
+      const maxWords = Number(await contract.MAX_TOKEN_URI_WORDS())
+
+      const tokenId = await contract.totalSupply()
+      await sendTransaction(contract.connect(owner.wallet).mint, owner.wallet.address)
+
+      // a header word and one word per 8 bytes
+      const func = contract.connect(owner.wallet).setTokenURIWords
+      const { ctInts, signatures } = await encryptWords(
+        { type: "string", value: "x".repeat(8 * maxWords) },
+        owner,
+        contractAddress,
+        func.fragment.selector
+      )
+      expect(ctInts).to.have.length(maxWords + 1)
+      await expect(sendTransaction(func, tokenId, ctInts, signatures)).to.be.revertedOnChain(
+        "ConfidentialERC721URIStorage: too many URI words"
+      )
+    })
+  })
+
+  describe("Portfolio", function () {
+    async function setURI(tokenId: bigint, uri: number) {
+      const { contract, contractAddress, owner } = deployment()
+      const func = contract.connect(owner.wallet).setTokenURI
+      const { ctInt, signature } = await prepareItUint64(BigInt(uri), owner, contractAddress, func.fragment.selector)
+      await sendTransaction(func, tokenId, ctInt, signature)
+    }
+
+    it("lists the tokens of each account from the Transfer logs with the decrypted balance", async function () {
+      const { contract, owner, otherAccount } = deployment()
+      const client = new NftPortfolioClient(contract)
+
+      await sendTransaction(contract.connect(owner.wallet).mint, otherAccount.wallet.address)
+      await sendTransaction(contract.connect(owner.wallet).mint, owner.wallet.address)
+      await sendTransaction(
+        contract.connect(owner.wallet).transferFrom,
+        owner.wallet.address,
+        otherAccount.wallet.address,
+        BigInt(0)
+      )
+
+      expect(await client.tokenIds(owner.wallet.address)).to.deep.equal([BigInt(2)])
+      expect(await client.tokenIds(otherAccount.wallet.address)).to.deep.equal([BigInt(1), BigInt(0)])
+      for (const tokenId of [BigInt(0), BigInt(1)]) {
+        expect(await contract.ownerOf(tokenId)).to.equal(otherAccount.wallet.address)
+      }
+
+      const portfolio = await client.portfolio(otherAccount)
+      expect(portfolio.balance).to.equal(BigInt(2))
+      expect(portfolio.tokens.map(({ tokenId }) => tokenId)).to.deep.equal([BigInt(1), BigInt(0)])
+      expect(await client.balanceOf(owner)).to.equal(BigInt(1))
+    })
+
+    it("balanceOf returns the ciphertext of the caller whatever address it is given", async function () {
+      const { contract, owner, otherAccount } = deployment()
+
+      const ct = await contract.connect(otherAccount.wallet).balanceOf(owner.wallet.address)
+      expect(inspectCiphertext(ct, otherAccount)).to.deep.equal({ domain: "empty" })
+
+      const ownerCt = await contract.connect(owner.wallet).balanceOf(otherAccount.wallet.address)
+      expect(inspectCiphertext(ownerCt, owner)).to.deep.equal({ domain: "user", value: BigInt(1) })
+      expect(inspectCiphertext(ownerCt, otherAccount)).to.deep.equal({ domain: "network" })
+    })
+
+    it("after transferFrom the new owner decrypts the URI and the previous owner cannot", async function () {
+      const { contract, owner, otherAccount } = deployment()
+      const client = new NftPortfolioClient(contract)
+      const tokenId = BigInt(0)
+      await setURI(tokenId, 11)
+
+      expect((await client.portfolio(owner)).tokens).to.deep.equal([{ tokenId, uri: BigInt(11) }])
+
+      await sendTransaction(
+        contract.connect(owner.wallet).transferFrom,
+        owner.wallet.address,
+        otherAccount.wallet.address,
+        tokenId
+      )
+
+      expect((await client.tokenURIs(tokenId, otherAccount)).uri).to.deep.equal({ domain: "user", value: BigInt(11) })
+      expect((await client.tokenURIs(tokenId, owner)).uri).to.deep.equal({ domain: "network" })
+      expect((await client.portfolio(otherAccount)).tokens).to.deep.equal([{ tokenId, uri: BigInt(11) }])
+      expect(await client.portfolio(owner)).to.deep.equal({
+        address: owner.wallet.address,
+        balance: BigInt(0),
+        tokens: [],
+      })
+    })
+
+    it("hands the multi-word URI over to the new owner on every transfer", async function () {
+      const { contract, contractAddress, owner, otherAccount } = deployment()
+      const client = new NftPortfolioClient(contract)
+      const uri = {
+        type: "string",
+        value: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      } as const
+      const tokenId = BigInt(0)
+
+      const func = contract.connect(owner.wallet).setTokenURIWords
+      const { ctInts, signatures } = await encryptWords(uri, owner, contractAddress, func.fragment.selector)
+      await sendTransaction(func, tokenId, ctInts, signatures)
+
+      const [from, to] = [owner, otherAccount]
+      for (const [sender, receiver] of [
+        [from, to],
+        [to, from],
+      ]) {
+        await sendTransaction(
+          contract.connect(sender.wallet).transferFrom,
+          sender.wallet.address,
+          receiver.wallet.address,
+          tokenId
+        )
+
+        const { words } = await client.tokenURIs(tokenId, sender)
+        expect(words.map(({ domain }) => domain)).to.deep.equal(words.map(() => "network"))
+        expect((await client.portfolio(receiver)).tokens).to.deep.equal([{ tokenId, uri: BigInt(0), uriWords: uri }])
+      }
+    })
   })
 })
@@ -0,0 +1,175 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import { Wallet } from "ethers"
+import { setupAccounts } from "./util/onboard"
+import { deployModule } from "./util/deployments"
+import { useFixture } from "./util/fixtures"
+import { isEmulatedNetwork } from "./util/mpc-emulator"
+import { PlaintextKeystore } from "./util/keystore"
+import { openProfile } from "./util/profiles"
+import { sendTransaction } from "./util/transactions"
+import ERC20ExampleModule from "../ignition/modules/ERC20Example"
+
+// The accounts are put in a keystore of their own, the tasks find it through KEYSTORE_PATH
+async function deploy() {
+  const [owner, holder] = await setupAccounts(2)
+
+  const { addresses } = await deployModule(ERC20ExampleModule, [owner, holder], { fresh: true })
+  const token = await hre.ethers.getContractAt("ConfidentialERC20", addresses.token, owner.wallet)
+  const deploymentBlock = await hre.ethers.provider.getBlockNumber()
+
+  const keystore = new PlaintextKeystore(process.env.KEYSTORE_PATH!)
+  const network = await openProfile(hre, keystore)
+  await keystore.import(
+    [owner, holder].map(({ wallet, userKey }) => ({
+      address: wallet.address,
+      privateKey: wallet.privateKey,
+      network,
+      userKey,
+    }))
+  )
+
+  return { token, tokenAddress: addresses.token, owner, holder, deploymentBlock }
+}
+
+describe("coti tasks", function () {
+  const env = { ...process.env }
+  let tmpDir: string
+
+  before(function () {
+    if (!isEmulatedNetwork()) this.skip()
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "coti-tasks-"))
+    process.env.KEYSTORE_PATH = path.join(tmpDir, "keystore.json")
+    process.env.INDEXER_PATH = path.join(tmpDir, "indexer.json")
+    delete process.env.KEYSTORE_PASSWORD
+  })
+
+  after(function () {
+    process.env = { ...env }
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const deployment = useFixture(deploy)
+
+  // The lines the task printed
+  async function runTask(name: string, args: Record<string, unknown>) {
+    const lines: string[] = []
+    const log = console.log
+    console.log = (...data: unknown[]) => void lines.push(data.join(" "))
+    try {
+      await hre.run(name, args)
+    } finally {
+      console.log = log
+    }
+    return lines
+  }
+
+  async function taskError(name: string, args: Record<string, unknown>) {
+    return runTask(name, args).then(
+      () => undefined,
+      (error: Error) => error
+    )
+  }
+
+  const readKeystore = () => fs.readFileSync(process.env.KEYSTORE_PATH!, "utf8")
+
+  it("Takes --account as an index, an address or a private key, and never stores the private key", async function () {
+    const { tokenAddress, owner } = deployment()
+    const expected = [`${owner.wallet.address}: 5000.0 CTOK`]
+    const keystore = readKeystore()
+
+    expect(await runTask("coti:balance", { token: tokenAddress, account: "0" })).to.deep.equal(expected)
+    expect(await runTask("coti:balance", { token: tokenAddress, account: owner.wallet.address })).to.deep.equal(
+      expected
+    )
+    expect(await runTask("coti:balance", { token: tokenAddress, account: owner.wallet.privateKey })).to.deep.equal(
+      expected
+    )
+
+    const unknown = Wallet.createRandom()
+    const error = await taskError("coti:balance", { token: tokenAddress, account: unknown.privateKey })
+    expect(error?.message).to.include(`${unknown.address} is not onboarded`)
+    expect(readKeystore()).to.equal(keystore)
+  })
+
+  it("Onboards only accounts it may store the user key of", async function () {
+    const { holder } = deployment()
+    const keystore = readKeystore()
+
+    const lines = await runTask("coti:onboard", { account: holder.wallet.privateKey })
+    expect(lines).to.deep.equal([
+      `${holder.wallet.address} is already onboarded on chain-31337, use --force to rotate its user key`,
+    ])
+
+    // onboarding itself needs the RSA-encrypted key of the real network, the emulator hands it out in clear
+    const unknown = Wallet.createRandom()
+    const error = await taskError("coti:onboard", { account: unknown.privateKey })
+    expect(error?.message).to.include("pass --save to store its private key")
+    expect(readKeystore()).to.equal(keystore)
+  })
+
+  it("Transfers and prints the balances left", async function () {
+    const { tokenAddress, owner, holder } = deployment()
+
+    const lines = await runTask("coti:transfer", {
+      token: tokenAddress,
+      to: holder.wallet.address,
+      amount: BigInt(500),
+      account: "0",
+    })
+
+    expect(lines[0]).to.match(/^Transfer sent in 0x[0-9a-f]{64}$/)
+    expect(lines[1]).to.equal(`${owner.wallet.address}: 4999.995 CTOK`)
+    expect(await runTask("coti:balance", { token: tokenAddress, account: "1" })).to.deep.equal([
+      `${holder.wallet.address}: 0.005 CTOK`,
+    ])
+  })
+
+  it("Decrypts an allowance for its owner only", async function () {
+    const { token, tokenAddress, owner, holder } = deployment()
+    await sendTransaction(token.approveClear, holder.wallet.address, 11)
+    const args = { token: tokenAddress, owner: owner.wallet.address, spender: holder.wallet.address }
+
+    expect(await runTask("coti:allowance", { ...args, account: "0" })).to.deep.equal([
+      `Allowance of ${holder.wallet.address} on ${owner.wallet.address}: 0.00011`,
+    ])
+    const error = await taskError("coti:allowance", { ...args, account: "1" })
+    expect(error?.message).to.include(`--account ${holder.wallet.address} cannot decrypt it`)
+  })
+
+  it("Pays a CSV and sends nothing again when run with the same checkpoint", async function () {
+    const { tokenAddress, holder } = deployment()
+    const csv = path.join(tmpDir, "payroll.csv")
+    fs.writeFileSync(csv, `address,amount\n${holder.wallet.address},700\n${holder.wallet.address},300\n`)
+    const args = { token: tokenAddress, csv, account: "0" }
+
+    expect(await runTask("coti:payout", args)).to.deep.equal([
+      `line 2 ${holder.wallet.address} 0.007: sent`,
+      `line 3 ${holder.wallet.address} 0.003: sent`,
+      `line 2 ${holder.wallet.address} 0.007: paid`,
+      `line 3 ${holder.wallet.address} 0.003: paid`,
+      "2 paid",
+    ])
+    expect(JSON.parse(fs.readFileSync(`${csv}.checkpoint.json`, "utf8")).payouts).to.have.keys("2", "3")
+
+    expect(await runTask("coti:payout", args)).to.deep.equal(["2 paid"])
+    expect(await runTask("coti:balance", { token: tokenAddress, account: "1" })).to.deep.equal([
+      `${holder.wallet.address}: 0.01 CTOK`,
+    ])
+  })
+
+  it("Prints the decrypted history of an account", async function () {
+    const { token, tokenAddress, owner, holder, deploymentBlock } = deployment()
+    const receipt = await sendTransaction(token["transfer(address,uint64,bool)"], holder.wallet.address, 700, false)
+
+    const lines = await runTask("coti:history", { token: tokenAddress, account: "1", fromBlock: deploymentBlock })
+
+    expect(lines).to.deep.equal([
+      `#${receipt.blockNumber} Transfer in 0.007 from ${owner.wallet.address}, balance 0.007`,
+    ])
+  })
+})
@@ -0,0 +1,119 @@
+import hre from "hardhat"
+import { expect } from "chai"
+import { setupAccounts } from "./util/onboard"
+import { deployModule } from "./util/deployments"
+import { useFixture } from "./util/fixtures"
+import { sendTransaction } from "./util/transactions"
+import { checkUserEncryptedValueLogs, inspectCiphertext } from "./util/ciphertext-inspector"
+import { prepareItUint64 } from "./util/mpc-values"
+import DataOnChainModule from "../ignition/modules/DataOnChain"
+
+async function deploy() {
+  const [owner, otherAccount] = await setupAccounts()
+
+  const { addresses } = await deployModule(DataOnChainModule, [owner, otherAccount], { fresh: true })
+  const contract = await hre.ethers.getContractAt("DataOnChain", addresses.dataOnChain, owner.wallet)
+  return { contract, contractAddress: addresses.dataOnChain, owner, otherAccount }
+}
+
+// Walks through the ways DataOnChain keeps a value: in the clear, encrypted with the network key from a clear value
+// or from an input text, and encrypted with the key of the user that asked for it
+describe("Data on chain", function () {
+  const deployment = useFixture(deploy)
+
+  const clearValue = BigInt(30)
+  const inputValue = BigInt(12)
+
+  async function setNetworkValues() {
+    const { contract, contractAddress, owner } = deployment()
+    await sendTransaction(contract.setSomeEncryptedValue, clearValue)
+
+    const func = contract.setSomeEncryptedValueEncryptedInput
+    const { ctInt, signature } = await prepareItUint64(inputValue, owner, contractAddress, func.fragment.selector)
+    await sendTransaction(func, ctInt, signature)
+  }
+
+  it("Keeps the clear value set by the constructor", async function () {
+    expect(await deployment().contract.getSomeValue()).to.equal(5)
+  })
+
+  it("Reads the encrypted values as empty before they are set", async function () {
+    const { contract, owner } = deployment()
+
+    for (const ct of [
+      await contract.getNetworkSomeEncryptedValue(),
+      await contract.getNetworkSomeEncryptedValueEncryptedInput(),
+      await contract.getUserSomeEncryptedValue(),
+      await contract.getUserArithmeticResult(),
+    ]) {
+      expect(inspectCiphertext(ct, owner)).to.deep.equal({ domain: "empty" })
+    }
+  })
+
+  it("Stores a clear value and an input text as network ciphertexts no user can decrypt", async function () {
+    const { contract, owner, otherAccount } = deployment()
+    await setNetworkValues()
+
+    for (const ct of [
+      await contract.getNetworkSomeEncryptedValue(),
+      await contract.getNetworkSomeEncryptedValueEncryptedInput(),
+    ]) {
+      expect(inspectCiphertext(ct, owner)).to.deep.equal({ domain: "network" })
+      expect(inspectCiphertext(ct, otherAccount)).to.deep.equal({ domain: "network" })
+    }
+  })
+
+  it("Re-encrypts the network value for the user that asks for it and logs the same ciphertext", async function () {
+    const { contract, owner, otherAccount } = deployment()
+    await setNetworkValues()
+
+    const receipt = await sendTransaction(contract.setUserSomeEncryptedValue)
+    const stored = await contract.getUserSomeEncryptedValue()
+
+    expect(inspectCiphertext(stored, owner)).to.deep.equal({ domain: "user", value: clearValue })
+    expect(inspectCiphertext(stored, otherAccount)).to.deep.equal({ domain: "network" })
+
+    const logs = checkUserEncryptedValueLogs(contract, receipt, stored, owner)
+    expect(logs.map(({ problems }) => problems)).to.deep.equal([[]])
+  })
+
+  it("Re-encrypts the value of the input text for the user that asks for it", async function () {
+    const { contract, otherAccount } = deployment()
+    await setNetworkValues()
+
+    const receipt = await sendTransaction(contract.connect(otherAccount.wallet).setUserSomeEncryptedValueEncryptedInput)
+    const stored = await contract.getUserSomeEncryptedValueEncryptedInput()
+
+    expect(inspectCiphertext(stored, otherAccount)).to.deep.equal({ domain: "user", value: inputValue })
+    const logs = checkUserEncryptedValueLogs(contract, receipt, stored, otherAccount)
+    expect(logs.map(({ problems }) => problems)).to.deep.equal([[]])
+  })
+
+  it("Reports a log checked against another account or another stored value", async function () {
+    const { contract, owner, otherAccount } = deployment()
+    await setNetworkValues()
+
+    const receipt = await sendTransaction(contract.setUserSomeEncryptedValue)
+    const stored = await contract.getUserSomeEncryptedValue()
+
+    const [forOther] = checkUserEncryptedValueLogs(contract, receipt, stored, otherAccount)
+    expect(forOther.inspection).to.deep.equal({ domain: "network" })
+    expect(forOther.problems).to.have.lengthOf(2)
+
+    await sendTransaction(contract.setUserSomeEncryptedValue)
+    const [outdated] = checkUserEncryptedValueLogs(contract, receipt, await contract.getUserSomeEncryptedValue(), owner)
+    expect(outdated.inspection).to.deep.equal({ domain: "user", value: clearValue })
+    expect(outdated.problems).to.have.lengthOf(1)
+  })
+
+  it("Adds both network values into a result only the caller decrypts", async function () {
+    const { contract, owner, otherAccount } = deployment()
+    await setNetworkValues()
+
+    await sendTransaction(contract.connect(otherAccount.wallet).add)
+    const result = await contract.getUserArithmeticResult()
+
+    expect(inspectCiphertext(result, otherAccount)).to.deep.equal({ domain: "user", value: clearValue + inputValue })
+    expect(inspectCiphertext(result, owner)).to.deep.equal({ domain: "network" })
+  })
+})
@@ -0,0 +1,58 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import { setupAccounts } from "./util/onboard"
+import { deployModule } from "./util/deployments"
+import { asLiveNetwork } from "./util/mpc-emulator"
+import DataOnChainModule from "../ignition/modules/DataOnChain"
+
+describe("Deployments", function () {
+  let ignitionDir: string
+  let dir: string
+
+  // the deployments are recorded in a temporary folder, not in the shared ignition/deployments
+  beforeEach(function () {
+    ignitionDir = hre.config.paths.ignition
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ignition-"))
+    hre.config.paths.ignition = dir
+  })
+
+  afterEach(function () {
+    hre.config.paths.ignition = ignitionDir
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("Records a deployment outside of the in-process network and reuses it on the next run", async function () {
+    const [owner] = await setupAccounts(1)
+    const { chainId } = await hre.ethers.provider.getNetwork()
+
+    const [first, second, fresh] = await asLiveNetwork(async () => [
+      await deployModule(DataOnChainModule, [owner]),
+      await deployModule(DataOnChainModule, [owner]),
+      await deployModule(DataOnChainModule, [owner], { fresh: true }),
+    ])
+
+    expect(first.reused).to.equal(false)
+    expect(second).to.deep.equal({ addresses: first.addresses, reused: true })
+    expect(fresh.reused).to.equal(false)
+    expect(fresh.addresses.dataOnChain).to.not.equal(first.addresses.dataOnChain)
+
+    const recorded = path.join(dir, "deployments", `chain-${chainId}`, "deployed_addresses.json")
+    expect(JSON.parse(fs.readFileSync(recorded, "utf8"))).to.deep.equal({
+      "DataOnChain#DataOnChain": first.addresses.dataOnChain,
+    })
+  })
+
+  it("Deploys every time on the in-process network", async function () {
+    const [owner] = await setupAccounts(1)
+
+    const first = await deployModule(DataOnChainModule, [owner])
+    const second = await deployModule(DataOnChainModule, [owner])
+
+    expect(second.reused).to.equal(false)
+    expect(second.addresses.dataOnChain).to.not.equal(first.addresses.dataOnChain)
+    expect(fs.readdirSync(dir)).to.deep.equal([])
+  })
+})
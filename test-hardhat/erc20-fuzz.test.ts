@@ -0,0 +1,110 @@
+import hre from "hardhat"
+import fc from "fast-check"
+import { expect } from "chai"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { setupAccounts } from "./util/onboard"
+import { withConfidential } from "./util/confidential-contract"
+import { deployModule } from "./util/deployments"
+import { sendTransaction } from "./util/transactions"
+import {
+  type TokenAction,
+  ERC20Model,
+  deviatingActions,
+  initialBalances,
+  knownDeviation,
+  readTokenState,
+  sendAction,
+  tokenActions,
+} from "./util/erc20-model"
+import ERC20ExampleModule from "../ignition/modules/ERC20Example"
+
+const accountCount = 3
+
+// FUZZ_RUNS sequences are generated from FUZZ_SEED. A failure prints the seed and path of the shrunk sequence,
+// FUZZ_SEED and FUZZ_PATH replay it alone.
+const numRuns = Number(process.env.FUZZ_RUNS ?? 10)
+const seed = process.env.FUZZ_SEED ? Number(process.env.FUZZ_SEED) : undefined
+const path = process.env.FUZZ_PATH
+// The properties of the known contract bugs are pending until the contract is fixed, FUZZ_KNOWN_FAILURES runs them
+const knownFailure = process.env.FUZZ_KNOWN_FAILURES ? it : it.skip
+
+// Every sequence gets its own token, the accounts start with setBalance
+async function runSequence(accounts: ConfidentialAccount[], balances: bigint[], actions: TokenAction[]) {
+  const { addresses } = await deployModule(ERC20ExampleModule, accounts, {
+    fresh: true,
+    parameters: { ERC20Example: { initialSupply: 0 } },
+  })
+  const token = withConfidential(await hre.ethers.getContractAt("ERC20Example", addresses.token), "ERC20Example")
+
+  for (const [i, balance] of balances.entries()) {
+    if (balance > 0) await sendTransaction(token.connect(accounts[i].wallet).setBalance, balance)
+  }
+  for (const action of actions) {
+    await sendAction(token, accounts, action)
+  }
+
+  return readTokenState(token, accounts)
+}
+
+describe("Confidential ERC20 fuzzing", function () {
+  let accounts: ConfidentialAccount[]
+
+  before(async function () {
+    accounts = await setupAccounts(accountCount)
+  })
+
+  // Every sequence ends like the model
+  function checkAgainstModel(actions: fc.Arbitrary<TokenAction[]>) {
+    return fc.assert(
+      fc.asyncProperty(initialBalances(accountCount), actions, async (balances, actions) => {
+        const model = new ERC20Model(balances)
+        actions.forEach((action) => model.apply(action))
+
+        expect(await runSequence(accounts, balances, actions)).to.deep.equal(model.state())
+      }),
+      { numRuns, seed, path }
+    )
+  }
+
+  it("Model follows the ERC20 semantics", function () {
+    const model = new ERC20Model([BigInt(10), BigInt(0), BigInt(0)])
+
+    expect(model.apply({ kind: "transfer", from: 1, to: 0, amount: BigInt(1), encrypted: false })).to.equal(false)
+    expect(model.apply({ kind: "approve", owner: 0, spender: 1, amount: BigInt(4), encrypted: false })).to.equal(true)
+    // the allowance given to the sender is spent, not the one of the recipient
+    const delegated = { kind: "transferFrom", sender: 1, from: 0, to: 2, amount: BigInt(3), encrypted: true } as const
+    expect(model.apply(delegated)).to.equal(true)
+    expect(model.apply({ ...delegated, sender: 2, to: 1, amount: BigInt(1) })).to.equal(false)
+    const selfTransfer = { kind: "transfer", from: 2, to: 2, amount: BigInt(2), encrypted: true } as const
+    expect(model.apply(selfTransfer)).to.equal(true)
+
+    expect(model.state()).to.deep.equal({
+      balances: [BigInt(7), BigInt(0), BigInt(3)],
+      allowances: [
+        [BigInt(0), BigInt(1), BigInt(0)],
+        [BigInt(0), BigInt(0), BigInt(0)],
+        [BigInt(0), BigInt(0), BigInt(0)],
+      ],
+    })
+    expect(knownDeviation(delegated)).to.equal("delegated-transferFrom")
+    expect(knownDeviation(selfTransfer)).to.equal("self-transfer")
+    expect(knownDeviation({ ...delegated, sender: 2 })).to.equal(undefined)
+  })
+
+  it("Random transfer, approve and transferFrom sequences end like the model", async function () {
+    this.timeout(0)
+    await checkAgainstModel(tokenActions(accountCount))
+  })
+
+  // ConfidentialERC20 writes the sender balance then the recipient one, the second write wins
+  knownFailure("A transfer to oneself leaves the balance unchanged", async function () {
+    this.timeout(0)
+    await checkAgainstModel(deviatingActions(accountCount, "self-transfer"))
+  })
+
+  // ConfidentialERC20 spends the allowance the owner gave to the recipient of transferFrom, whoever sends it
+  knownFailure("transferFrom spends the allowance given to its sender", async function () {
+    this.timeout(0)
+    await checkAgainstModel(deviatingActions(accountCount, "delegated-transferFrom"))
+  })
+})
@@ -0,0 +1,188 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import { setupAccounts } from "./util/onboard"
+import { withConfidential } from "./util/confidential-contract"
+import { deployModule } from "./util/deployments"
+import { sendTransaction } from "./util/transactions"
+import {
+  type TokenEvent,
+  accountHistory,
+  followTokenEvents,
+  indexTokenEvents,
+  openTokenEventStore,
+} from "./util/erc20-indexer"
+import ERC20ExampleModule from "../ignition/modules/ERC20Example"
+
+async function deploy() {
+  const [owner, otherAccount] = await setupAccounts()
+
+  // the suite indexes from the block after this one, a recorded deployment is reused on devnet
+  const { addresses } = await deployModule(ERC20ExampleModule, [owner, otherAccount])
+  const token = await hre.ethers.getContractAt("ERC20Example", addresses.token, owner.wallet)
+  const contract = withConfidential(token, "ERC20Example")
+  const startBlock = (await hre.ethers.provider.getBlockNumber()) + 1
+  const received = await contract.confidential(otherAccount).balanceOf()
+
+  return { token, contract, owner, otherAccount, startBlock, received }
+}
+
+describe("Confidential ERC20 event indexer", function () {
+  let deployment: Awaited<ReturnType<typeof deploy>>
+  let storePath: string
+
+  before(async function () {
+    deployment = await deploy()
+    storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "index.json")
+  })
+
+  after(function () {
+    fs.rmSync(path.dirname(storePath), { recursive: true, force: true })
+  })
+
+  // one event of each overload, every transaction mined in its own block
+  async function sendEvents() {
+    const { token, contract, owner, otherAccount } = deployment
+    const to = otherAccount.wallet.address
+
+    await sendTransaction(token["transfer(address,uint64,bool)"], to, 5, true)
+    await contract.confidential(owner).transfer(to, BigInt(7))
+    await sendTransaction(token.approveClear, to, 11)
+    await contract.confidential(owner).approve(to, BigInt(13))
+    await contract.confidential(otherAccount).transferFrom(owner.wallet.address, to, BigInt(3))
+  }
+
+  let events: TokenEvent[]
+
+  it("Decodes both overloads of Transfer and Approval", async function () {
+    const { token, owner, otherAccount, startBlock } = deployment
+    await sendEvents()
+
+    const store = openTokenEventStore(storePath)
+    events = (await indexTokenEvents(token, store, { fromBlock: startBlock })).events
+
+    expect(events.map(({ name, value }) => [name, value])).to.deep.equal([
+      ["Transfer", "5"],
+      ["Transfer", undefined],
+      ["Approval", "11"],
+      ["Approval", undefined],
+      ["Transfer", undefined],
+    ])
+    for (const event of events) {
+      expect(event.from).to.equal(owner.wallet.address)
+      expect(event.to).to.equal(otherAccount.wallet.address)
+    }
+  })
+
+  it("Indexes only the blocks after the last indexed one", async function () {
+    const { token, owner, otherAccount, startBlock } = deployment
+    await sendTransaction(token["transfer(address,uint64,bool)"], otherAccount.wallet.address, 1, true)
+
+    // a new store instance reads what the previous run wrote
+    const { events: all, added } = await indexTokenEvents(token, openTokenEventStore(storePath), {
+      fromBlock: startBlock,
+    })
+    expect(added.map(({ name, value }) => [name, value])).to.deep.equal([["Transfer", "1"]])
+    expect(all).to.deep.equal([...events, ...added])
+    expect(added[0].from).to.equal(owner.wallet.address)
+
+    events = all
+  })
+
+  it("Decrypts the amounts and allowances of the sender", async function () {
+    const { token, owner } = deployment
+    const history = await accountHistory(token, events, owner)
+
+    expect(history.map(({ direction }) => direction)).to.deep.equal(["out", "out", "out", "out", "out", "out"])
+    expect(history.map(({ amount }) => amount)).to.deep.equal([
+      BigInt(5),
+      BigInt(7),
+      undefined,
+      undefined,
+      BigInt(3),
+      BigInt(1),
+    ])
+    expect(history[2].allowance).to.equal(BigInt(11))
+    expect(history[3].allowance).to.equal(BigInt(13))
+
+    const balance = await deployment.contract.confidential(owner).balanceOf()
+    expect(history[history.length - 1].balance).to.equal(balance)
+  })
+
+  it("Decrypts the amounts received but not the allowances given to the spender", async function () {
+    const { token, otherAccount, received } = deployment
+    const history = await accountHistory(token, events, otherAccount)
+
+    expect(history.map(({ direction }) => direction)).to.deep.equal(["in", "in", "in", "in", "in", "in"])
+    expect(history.filter(({ name }) => name === "Transfer").map(({ amount }) => amount)).to.deep.equal([
+      BigInt(5),
+      BigInt(7),
+      BigInt(3),
+      BigInt(1),
+    ])
+    // the allowance is only re-encrypted for its owner, the spender sees the value of the clear overload only
+    expect(
+      history.filter(({ name }) => name === "Approval").map(({ allowance, value }) => [allowance, value])
+    ).to.deep.equal([
+      [undefined, "11"],
+      [undefined, undefined],
+    ])
+    expect(history[history.length - 1].balance).to.equal(received + BigInt(16))
+  })
+  // Resolves with what the predicate returns once it is truthy, checked every 20 ms
+  async function waitFor<T>(predicate: () => T | undefined, timeout = 10000) {
+    const deadline = Date.now() + timeout
+    while (Date.now() < deadline) {
+      const value = predicate()
+      if (value) return value
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    throw new Error(`Nothing after ${timeout} ms`)
+  }
+
+  it("Follows the transfers mined after it started", async function () {
+    const { token, otherAccount } = deployment
+    const followed: TokenEvent[] = []
+    const errors: unknown[] = []
+    const follower = followTokenEvents(token, openTokenEventStore(storePath), (added) => void followed.push(...added), {
+      pollInterval: 50,
+      onError: (error) => errors.push(error),
+    })
+
+    try {
+      await follower.running
+      const receipt = await sendTransaction(
+        token["transfer(address,uint64,bool)"],
+        otherAccount.wallet.address,
+        2,
+        true
+      )
+
+      const [event] = await waitFor(() => (followed.length > 0 ? followed : undefined))
+      expect(event).to.include({ name: "Transfer", value: "2", blockNumber: receipt.blockNumber })
+      expect(errors).to.deep.equal([])
+    } finally {
+      follower.stop()
+    }
+  })
+
+  it("Reports a failed poll and keeps polling", async function () {
+    const { token } = deployment
+    const errors: unknown[] = []
+    // a directory where the store file should be, every read fails
+    const follower = followTokenEvents(token, openTokenEventStore(path.dirname(storePath)), () => undefined, {
+      pollInterval: 20,
+      onError: (error) => errors.push(error),
+    })
+
+    try {
+      await follower.running
+      await waitFor(() => errors.length >= 2)
+      expect(String(errors[0])).to.include("EISDIR")
+    } finally {
+      follower.stop()
+    }
+  })
+})
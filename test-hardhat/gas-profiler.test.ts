@@ -0,0 +1,113 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import type { EthereumProvider } from "hardhat/types"
+import {
+  type GasProfile,
+  type TransactionProfile,
+  GasProfiler,
+  compareGasProfile,
+  summarizeGasProfile,
+  writeGasProfileReport,
+} from "./util/gas-profiler"
+
+let hashes = 0
+function call(fn: string, gasUsed: number, mpcOps?: Record<string, number>, reverted = false): TransactionProfile {
+  return { hash: `0x${(++hashes).toString(16)}`, function: fn, gasUsed: BigInt(gasUsed), reverted, mpcOps }
+}
+
+function profile(network: string, functions: Record<string, [gas: number, mpcOps?: Record<string, number>]>) {
+  return {
+    network,
+    functions: Object.fromEntries(
+      Object.entries(functions).map(([name, [gas, mpcOps]]) => [
+        name,
+        { calls: 1, gas: { min: gas, avg: gas, max: gas }, ...(mpcOps ? { mpcOps } : {}) },
+      ])
+    ),
+  } as GasProfile
+}
+
+describe("Gas profiler", function () {
+  it("Summarizes the calls of every function, the reverted ones apart", function () {
+    const summary = summarizeGasProfile("hardhat", [
+      call("Token.transfer()", 100, { OnBoard: 2, Sub: 1 }),
+      call("Token.transfer()", 300, { OnBoard: 2 }),
+      call("Token.transfer()", 30, { OnBoard: 1 }, true),
+      call("Token.approve()", 50, {}),
+      call("Token.approve()", 70),
+    ])
+
+    expect(summary).to.deep.equal({
+      network: "hardhat",
+      functions: {
+        // one call was not traced, no average of its MPC operations
+        "Token.approve()": { calls: 2, gas: { min: 50, avg: 60, max: 70 } },
+        "Token.transfer()": { calls: 2, gas: { min: 100, avg: 200, max: 300 }, mpcOps: { OnBoard: 2, Sub: 0.5 } },
+        "Token.transfer() reverted": { calls: 1, gas: { min: 30, avg: 30, max: 30 }, mpcOps: { OnBoard: 1 } },
+      },
+    })
+  })
+
+  it("Flags the gas and the MPC operations that grew by more than the tolerance", function () {
+    const baseline = profile("hardhat", {
+      "Token.transfer()": [1000, { OnBoard: 2 }],
+      "Token.approve()": [1000, { OnBoard: 1 }],
+      "Token.mint()": [1000],
+    })
+    const current = profile("hardhat", {
+      "Token.transfer()": [1050, { OnBoard: 2.1 }],
+      "Token.approve()": [1051, { OnBoard: 2, Sub: 1 }],
+      "Token.burn()": [5000],
+    })
+
+    expect(compareGasProfile(current, baseline, 0.05)).to.deep.equal([
+      { function: "Token.approve()", metric: "gas", baseline: 1000, current: 1051 },
+      { function: "Token.approve()", metric: "OnBoard", baseline: 1, current: 2 },
+      // an operation the baseline does not have
+      { function: "Token.approve()", metric: "Sub", baseline: 0, current: 1 },
+    ])
+  })
+
+  it("Compares nothing across networks", function () {
+    const baseline = profile("hardhat", { "Token.transfer()": [1000] })
+    const current = profile("devnet", { "Token.transfer()": [9000] })
+
+    expect(compareGasProfile(current, baseline, 0.05)).to.deep.equal([])
+  })
+
+  it("Writes the profile and its regressions as JSON and markdown", function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-profile-"))
+    try {
+      const current = profile("hardhat", { "Token.approve()": [2000, {}], "Token.transfer()": [1500] })
+      const regressions = [{ function: "Token.approve()", metric: "gas", baseline: 1000, current: 2000 }]
+
+      const { jsonPath, markdownPath } = writeGasProfileReport(current, regressions, dir)
+
+      expect(JSON.parse(fs.readFileSync(jsonPath, "utf8"))).to.deep.equal({ ...current, regressions })
+      const markdown = fs.readFileSync(markdownPath, "utf8")
+      expect(markdown).to.include("Network hardhat, 2 functions.")
+      expect(markdown).to.include("| Token.approve() | 1 | 2000 | 2000 | 2000 | – |")
+      expect(markdown).to.include("| Token.transfer() | 1 | 1500 | 1500 | 1500 | not traced |")
+      expect(markdown).to.include("## Regressions against the baseline")
+      expect(markdown).to.include("| Token.approve() | gas | 1000 | 2000 |")
+
+      writeGasProfileReport(current, [], dir)
+      expect(fs.readFileSync(markdownPath, "utf8")).to.not.include("Regressions")
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("Refuses an in-process network whose node exposes no raw trace callbacks", async function () {
+    const provider = { request: async () => "0x7a69" } as unknown as EthereumProvider
+
+    const error = await new GasProfiler(provider, hre.artifacts, true).start().then(
+      () => undefined,
+      (error) => error
+    )
+    expect(error?.message).to.include("exposes no _rawTraceCallbacks")
+  })
+})
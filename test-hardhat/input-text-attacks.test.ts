@@ -0,0 +1,223 @@
+import hre from "hardhat"
+import { expect } from "chai"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { setupAccounts } from "./util/onboard"
+import { deployModule } from "./util/deployments"
+import { useFixture } from "./util/fixtures"
+import { sendTransaction, transactionError } from "./util/transactions"
+import { inspectCiphertext } from "./util/ciphertext-inspector"
+import { decryptUint } from "./util/crypto"
+import {
+  type InputText,
+  type InputTextMutation,
+  inputTextMutations,
+  isRejected,
+  signedInputText,
+} from "./util/input-text-attacks"
+import { isEmulatedNetwork } from "./util/mpc-emulator"
+import { asMpcValue } from "./util/mpc-values"
+import type { CtUint64 } from "../typechain-types/mpc"
+import ERC20ExampleModule from "../ignition/modules/ERC20Example"
+import DataOnChainModule from "../ignition/modules/DataOnChain"
+
+const initialSupply = 1000000
+// given to the attacker, so that a transfer taken from its own balance shows
+const attackerFunds = BigInt(1000)
+
+async function deploy() {
+  // owner makes the valid input texts, attacker tries to misuse them, recipient is paid by the transfers
+  const [owner, attacker, recipient] = await setupAccounts(3)
+  const accounts = [owner, attacker, recipient]
+
+  const parameters = { ERC20Example: { name: "Target", symbol: "TGT", initialSupply } }
+  const token = await deployModule(ERC20ExampleModule, accounts, { parameters, fresh: true })
+  const otherToken = await deployModule(ERC20ExampleModule, accounts, { parameters, fresh: true })
+  const dataOnChain = await deployModule(DataOnChainModule, accounts, { fresh: true })
+
+  const contract = await hre.ethers.getContractAt("ERC20Example", token.addresses.token, owner.wallet)
+  await sendTransaction(contract["transfer(address,uint64,bool)"], attacker.wallet.address, attackerFunds, false)
+
+  return {
+    token: contract,
+    otherToken: await hre.ethers.getContractAt("ERC20Example", otherToken.addresses.token, owner.wallet),
+    dataOnChain: await hre.ethers.getContractAt("DataOnChain", dataOnChain.addresses.dataOnChain, owner.wallet),
+    owner,
+    attacker,
+    recipient,
+  }
+}
+
+// Submits input texts that were tampered with, replayed or handed to another account in place of valid ones, and
+// checks that each is rejected or accepted as its mutation pins it, and that the accepted ones are as harmless as the
+// valid input text: a change in the sdk or in the precompile must not go unnoticed. The MPC emulator cannot see which
+// function calls it, so locally an input text signed for another function of the same contract is accepted.
+const outcome = (mutation: InputTextMutation) => (isRejected(mutation, isEmulatedNetwork()) ? "rejected" : "accepted")
+
+describe("Input text attacks", function () {
+  const deployment = useFixture(deploy)
+
+  // A transaction rejected by the contract or the precompile, as opposed to one the node could not send or wait for
+  async function submit(tx: Promise<unknown>) {
+    const failure = await transactionError(tx)
+    expect(failure?.stage, failure?.message).to.be.oneOf([undefined, "estimate", "mined"])
+    return failure === undefined
+  }
+
+  // Submits the mutated input text and fails when the network does not reject or accept it as pinned
+  async function submitMutation(mutation: InputTextMutation, tx: Promise<unknown>) {
+    const accepted = await submit(tx)
+    const rejected = isRejected(mutation, isEmulatedNetwork())
+    expect(accepted, `an input text ${mutation.name} was ${accepted ? "accepted" : "rejected"}`).to.equal(!rejected)
+    return accepted
+  }
+
+  describe("ConfidentialERC20 transfer", function () {
+    const amount = BigInt(100)
+
+    async function balances() {
+      const { token, owner, attacker, recipient } = deployment()
+      const balanceOf = async (account: ConfidentialAccount) => {
+        const ct = await token.connect(account.wallet).balanceOf()
+        return ct === BigInt(0) ? BigInt(0) : decryptUint(ct, account.userKey)
+      }
+      return {
+        owner: await balanceOf(owner),
+        attacker: await balanceOf(attacker),
+        recipient: await balanceOf(recipient),
+      }
+    }
+
+    async function transferInput() {
+      const { token, owner } = deployment()
+      const selector = token["transfer(address,uint256,bytes,bool)"].fragment.selector
+      return signedInputText(amount, owner, await token.getAddress(), selector)
+    }
+
+    function transfer(submitter: ConfidentialAccount, { ctInt, signature }: InputText) {
+      const { token, recipient } = deployment()
+      const func = token.connect(submitter.wallet)["transfer(address,uint256,bytes,bool)"]
+      return sendTransaction(func, recipient.wallet.address, ctInt, signature, false)
+    }
+
+    it("moves the amount of the valid input text", async function () {
+      const { owner } = deployment()
+      const before = await balances()
+
+      expect(await submit(transfer(owner, await transferInput()))).to.equal(true)
+
+      const after = await balances()
+      expect(after.owner).to.equal(before.owner - amount)
+      expect(after.recipient).to.equal(before.recipient + amount)
+    })
+
+    for (const mutation of inputTextMutations) {
+      it(`an input text ${mutation.name} is ${outcome(
+        mutation
+      )} and only spends the tokens of its submitter`, async function () {
+        const { token, otherToken, owner, attacker } = deployment()
+        const valid = await transferInput()
+        const { input, submitter } = mutation.mutate(valid, {
+          otherAccount: attacker,
+          otherContractAddress: await otherToken.getAddress(),
+          otherSelector: token["approve(address,uint256,bytes)"].fragment.selector,
+        })
+        const before = await balances()
+
+        const accepted = await submitMutation(mutation, transfer(submitter, input))
+
+        const after = await balances()
+        if (!accepted) {
+          expect(after).to.deep.equal(before)
+          return
+        }
+        // whatever the network read from the input text, only the balance of the account that sent it can go down
+        if (submitter !== owner) expect(after.owner).to.be.at.least(before.owner)
+        if (submitter !== attacker) expect(after.attacker).to.be.at.least(before.attacker)
+        expect(after.owner + after.attacker + after.recipient).to.equal(
+          before.owner + before.attacker + before.recipient
+        )
+      })
+    }
+  })
+
+  describe("DataOnChain encrypted input", function () {
+    const secret = BigInt(4242)
+
+    async function secretInput() {
+      const { dataOnChain, owner } = deployment()
+      const selector = dataOnChain.setSomeEncryptedValueEncryptedInput.fragment.selector
+      return signedInputText(secret, owner, await dataOnChain.getAddress(), selector)
+    }
+
+    // Stores the input text as the network value, then asks for it re-encrypted for the submitter, which is how an
+    // account would learn the value of an input text it did not make
+    async function readBack(
+      submitter: ConfidentialAccount,
+      { ctInt, signature }: InputText,
+      mutation?: InputTextMutation
+    ) {
+      const dataOnChain = deployment().dataOnChain.connect(submitter.wallet)
+      const tx = sendTransaction(dataOnChain.setSomeEncryptedValueEncryptedInput, ctInt, signature)
+      if (!(await (mutation ? submitMutation(mutation, tx) : submit(tx)))) return undefined
+
+      await sendTransaction(dataOnChain.setUserSomeEncryptedValueEncryptedInput)
+      return inspectCiphertext(await dataOnChain.getUserSomeEncryptedValueEncryptedInput(), submitter)
+    }
+
+    it("gives the value of the valid input text back to its sender", async function () {
+      const { owner } = deployment()
+
+      expect(await readBack(owner, await secretInput())).to.deep.equal({ domain: "user", value: secret })
+    })
+
+    for (const mutation of inputTextMutations) {
+      it(`an input text ${mutation.name} is ${outcome(
+        mutation
+      )} and does not reveal the value to another account`, async function () {
+        const { token, otherToken, attacker } = deployment()
+        const valid = await secretInput()
+        const { input, submitter } = mutation.mutate(valid, {
+          otherAccount: attacker,
+          otherContractAddress: await otherToken.getAddress(),
+          otherSelector: token["approve(address,uint256,bytes)"].fragment.selector,
+        })
+
+        const read = await readBack(submitter, input, mutation)
+        if (read && submitter !== valid.sender) expect(read).to.not.deep.equal({ domain: "user", value: secret })
+      })
+    }
+  })
+
+  describe("DataOnChain network ciphertext", function () {
+    const secret = BigInt(31337)
+
+    it("a user ciphertext of another account set as the network value does not reveal it", async function () {
+      const { dataOnChain, owner, attacker } = deployment()
+      await sendTransaction(dataOnChain.setSomeEncryptedValue, secret)
+      await sendTransaction(dataOnChain.setUserSomeEncryptedValue)
+      const victimCt = await dataOnChain.getUserSomeEncryptedValue()
+      expect(inspectCiphertext(victimCt, owner)).to.deep.equal({ domain: "user", value: secret })
+
+      const asAttacker = dataOnChain.connect(attacker.wallet)
+      if (!(await submit(sendTransaction(asAttacker.setNetworkSomeEncryptedValue, victimCt)))) return
+      if (!(await submit(sendTransaction(asAttacker.setUserSomeEncryptedValue)))) return
+
+      const stolen = inspectCiphertext(await dataOnChain.getUserSomeEncryptedValue(), attacker)
+      expect(stolen).to.not.deep.equal({ domain: "user", value: secret })
+    })
+
+    it("an input text ciphertext set as the network value is not read as its value", async function () {
+      const { dataOnChain, owner, attacker } = deployment()
+      const selector = dataOnChain.setSomeEncryptedValueEncryptedInput.fragment.selector
+      const { ctInt } = await signedInputText(secret, owner, await dataOnChain.getAddress(), selector)
+
+      const asAttacker = dataOnChain.connect(attacker.wallet)
+      const asNetworkCt = asMpcValue<CtUint64>(ctInt)
+      if (!(await submit(sendTransaction(asAttacker.setNetworkSomeEncryptedValue, asNetworkCt)))) return
+      if (!(await submit(sendTransaction(asAttacker.setUserSomeEncryptedValue)))) return
+
+      const read = inspectCiphertext(await dataOnChain.getUserSomeEncryptedValue(), attacker)
+      expect(read).to.not.deep.equal({ domain: "user", value: secret })
+    })
+  })
+})
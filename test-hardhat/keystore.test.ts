@@ -0,0 +1,102 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { expect } from "chai"
+import { Wallet } from "ethers"
+import { EncryptedKeystore, PlaintextKeystore, openKeystore } from "./util/keystore"
+
+describe("Keystore", function () {
+  let dir: string
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"))
+  })
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("Picks the encrypted backend when a password is given", function () {
+    expect(openKeystore(path.join(dir, "a.json"), "secret")).to.be.instanceOf(EncryptedKeystore)
+    expect(openKeystore(path.join(dir, "a.json"), undefined)).to.be.instanceOf(PlaintextKeystore)
+  })
+
+  it("Reads back what the encrypted backend wrote, without any key in clear in the file", async function () {
+    const filePath = path.join(dir, "keystore.json")
+    const { entries } = await new EncryptedKeystore(filePath, "secret").create("chain-1", 2)
+    await new EncryptedKeystore(filePath, "secret").rotate("chain-1", entries[0].address, "ab".repeat(16))
+
+    const raw = fs.readFileSync(filePath, "utf8")
+    expect(JSON.parse(raw).kdf).to.equal("scrypt")
+    for (const { address, privateKey } of entries) {
+      expect(raw).to.not.include(privateKey.slice(2))
+      expect(raw.toLowerCase()).to.not.include(address.slice(2).toLowerCase())
+    }
+
+    const loaded = await new EncryptedKeystore(filePath, "secret").load("chain-1")
+    expect(loaded.map(({ address, privateKey }) => ({ address, privateKey }))).to.deep.equal(
+      entries.map(({ address, privateKey }) => ({ address, privateKey }))
+    )
+    expect(loaded[0].userKey).to.equal("ab".repeat(16))
+  })
+
+  it("Rejects a wrong password", async function () {
+    const filePath = path.join(dir, "keystore.json")
+    await new EncryptedKeystore(filePath, "secret").create("chain-1", 1)
+
+    const error = await new EncryptedKeystore(filePath, "not the secret").load("chain-1").then(
+      () => undefined,
+      (error) => error
+    )
+    expect(error?.message).to.include("wrong password")
+  })
+
+  it("Creates only the missing accounts of a network", async function () {
+    const keystore = new PlaintextKeystore(path.join(dir, "keystore.json"))
+
+    const first = await keystore.create("chain-1", 2)
+    const again = await keystore.create("chain-1", 2)
+    const more = await keystore.create("chain-1", 3)
+    const other = await keystore.create("chain-2", 1)
+
+    expect(first.created).to.have.length(2)
+    expect(again.created).to.have.length(0)
+    expect(again.entries).to.deep.equal(first.entries)
+    expect(more.created).to.have.length(1)
+    expect(more.entries.slice(0, 2)).to.deep.equal(first.entries)
+    expect(other.created).to.have.length(1)
+    expect(await keystore.load("chain-1")).to.have.length(3)
+  })
+
+  it("Rotates only the user key of the account", async function () {
+    const keystore = new PlaintextKeystore(path.join(dir, "keystore.json"))
+    const { entries } = await keystore.create("chain-1", 2)
+    await keystore.rotate("chain-1", entries[1].address, "01".repeat(16))
+
+    const rotated = await keystore.rotate("chain-1", entries[0].address.toLowerCase(), "02".repeat(16))
+
+    expect(rotated).to.include({ address: entries[0].address, privateKey: entries[0].privateKey, network: "chain-1" })
+    expect(rotated.userKey).to.equal("02".repeat(16))
+    expect(rotated.onboardedAt).to.be.a("string")
+    const loaded = await keystore.load("chain-1")
+    expect(loaded[0]).to.deep.equal(rotated)
+    expect(loaded[1].userKey).to.equal("01".repeat(16))
+
+    const error = await keystore.rotate("chain-2", entries[0].address, "03".repeat(16)).then(
+      () => undefined,
+      (error) => error
+    )
+    expect(error?.message).to.include("is not in keystore")
+  })
+
+  it("Imports only the accounts it does not know", async function () {
+    const keystore = new PlaintextKeystore(path.join(dir, "keystore.json"))
+    const wallet = Wallet.createRandom()
+    const entry = { address: wallet.address, privateKey: wallet.privateKey, network: "chain-1" }
+
+    expect(await keystore.import([entry])).to.have.length(1)
+    expect(await keystore.import([{ ...entry, address: wallet.address.toLowerCase() }])).to.have.length(0)
+    expect(await keystore.import([{ ...entry, network: "chain-2" }])).to.have.length(1)
+    expect(await keystore.load("chain-1")).to.deep.equal([entry])
+  })
+})
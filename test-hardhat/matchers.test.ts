@@ -0,0 +1,111 @@
+import hre from "hardhat"
+import { AssertionError, expect } from "chai"
+import { setupAccounts } from "./util/onboard"
+import { deployModule } from "./util/deployments"
+import { sendTransaction } from "./util/transactions"
+import { useFixture } from "./util/fixtures"
+import { asItUint64 } from "./util/mpc-values"
+import "./util/matchers"
+import NFTExampleModule from "../ignition/modules/NFTExample"
+
+async function deploy() {
+  const [owner, otherAccount] = await setupAccounts()
+
+  // the tests only need the first token the deployer owns, a recorded deployment is reused on devnet
+  const { addresses } = await deployModule(NFTExampleModule, [owner, otherAccount])
+  const contract = await hre.ethers.getContractAt("NFTExample", addresses.nft, owner.wallet)
+  return { contract, owner, otherAccount }
+}
+
+// The message of an assertion expected to fail
+async function failureMessage(assertion: PromiseLike<unknown>) {
+  return Promise.resolve(assertion).then(
+    () => expect.fail("Expected the assertion to fail"),
+    (error: Error) => {
+      if (!(error instanceof AssertionError)) throw error
+      return error.message
+    }
+  )
+}
+
+describe("Revert matchers", function () {
+  const deployment = useFixture(deploy)
+  const reason = "setTokenURIWords: words and signatures lengths differ"
+
+  // input texts the contracts refuse before validating them
+  const { ctInt, signature } = asItUint64(BigInt(1), new Uint8Array())
+
+  // reverts with a reason string
+  const lengthsDiffer = () => sendTransaction(deployment().contract.setTokenURIWords, 0, [ctInt], [])
+  // reverts with ERC721IncorrectOwner(otherAccount, 0, owner)
+  const notOwner = () => {
+    const { contract, otherAccount } = deployment()
+    return sendTransaction(contract.connect(otherAccount.wallet).setTokenURI, 0, ctInt, signature)
+  }
+  const mint = () => sendTransaction(deployment().contract.mint, deployment().owner.wallet.address)
+
+  it("Matches the reason of a revert with a string or a RegExp", async function () {
+    await expect(lengthsDiffer()).to.be.revertedOnChain()
+    await expect(lengthsDiffer()).to.be.revertedOnChain(reason)
+    await expect(lengthsDiffer()).to.be.revertedOnChain(/lengths differ$/)
+  })
+
+  it("Fails on another reason or on a custom error", async function () {
+    expect(await failureMessage(expect(lengthsDiffer()).to.be.revertedOnChain("another reason"))).to.equal(
+      `Expected NFTExample.setTokenURIWords(uint256,uint256[],bytes[]) to revert with reason 'another reason', ` +
+        `it reverted with reason "${reason}"`
+    )
+    expect(await failureMessage(expect(lengthsDiffer()).to.be.revertedOnChain(/^another/))).to.include(
+      "to revert with reason '^another'"
+    )
+    expect(await failureMessage(expect(notOwner()).to.be.revertedOnChain(reason))).to.include(
+      "it reverted with ERC721IncorrectOwner("
+    )
+  })
+
+  it("Matches a custom error and its arguments", async function () {
+    const { owner, otherAccount } = deployment()
+
+    await expect(notOwner()).to.be.revertedOnChainWithError("ERC721IncorrectOwner")
+    await expect(notOwner()).to.be.revertedOnChainWithError(
+      "ERC721IncorrectOwner",
+      otherAccount.wallet.address,
+      0,
+      owner.wallet.address
+    )
+    expect(
+      await failureMessage(
+        expect(notOwner()).to.be.revertedOnChainWithError(
+          "ERC721IncorrectOwner",
+          owner.wallet.address,
+          0,
+          owner.wallet.address
+        )
+      )
+    ).to.include(`to revert with ERC721IncorrectOwner(${owner.wallet.address}, 0, ${owner.wallet.address})`)
+  })
+
+  it("Negates with .not", async function () {
+    await expect(lengthsDiffer()).not.to.be.revertedOnChain("another reason")
+    await expect(notOwner()).not.to.be.revertedOnChainWithError("ERC721InsufficientApproval")
+
+    expect(await failureMessage(expect(lengthsDiffer()).not.to.be.revertedOnChain(reason))).to.equal(
+      `Expected NFTExample.setTokenURIWords(uint256,uint256[],bytes[]) not to revert with reason '${reason}', it did`
+    )
+    expect(await failureMessage(expect(lengthsDiffer()).not.to.be.revertedOnChain())).to.include(
+      `Expected transaction not to revert, NFTExample.setTokenURIWords(uint256,uint256[],bytes[]) reverted`
+    )
+  })
+
+  it("Fails on a transaction that goes through, unless negated", async function () {
+    const totalSupply = await deployment().contract.totalSupply()
+    expect(await failureMessage(expect(mint()).to.be.revertedOnChain())).to.equal(
+      "Expected transaction to revert, it went through"
+    )
+    expect(await failureMessage(expect(mint()).to.be.revertedOnChainWithError("ERC721IncorrectOwner"))).to.equal(
+      "Expected transaction to revert with ERC721IncorrectOwner, it went through"
+    )
+    await expect(mint()).not.to.be.revertedOnChain()
+    expect(await deployment().contract.totalSupply()).to.equal(totalSupply + BigInt(3))
+  })
+})
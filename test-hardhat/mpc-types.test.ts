@@ -0,0 +1,67 @@
+import fs from "fs"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ConfidentialAuction, ConfidentialERC20, DataOnChain } from "../typechain-types"
+import type { CtUint64 } from "../typechain-types/mpc"
+import { brandContractTypings } from "../tasks/mpc-types"
+import { asMpcValue, decryptCtBool, decryptCtUint, prepareItUint64 } from "./util/mpc-values"
+
+// Never called: tsc fails if one of the mismatches below compiles
+async function mismatches(dataOnChain: DataOnChain, token: ConfidentialERC20, auction: ConfidentialAuction) {
+  const account = {} as ConfidentialAccount
+  const address = await dataOnChain.getAddress()
+  const selector = dataOnChain.setSomeEncryptedValueEncryptedInput.fragment.selector
+
+  // @ts-expect-error a raw number is not a network ciphertext
+  await dataOnChain.setNetworkSomeEncryptedValue(BigInt(1))
+  // @ts-expect-error a ciphertext is not an input text, it has no signature binding it to the sender
+  await dataOnChain.setSomeEncryptedValueEncryptedInput(await dataOnChain.getNetworkSomeEncryptedValue(), "0x")
+  // @ts-expect-error a ciphertext stored by a contract is not a garbled value handle
+  await token.contractTransfer(address, await token.balanceOf())
+  // @ts-expect-error a ctBool does not decrypt to a number
+  decryptCtUint(await auction.doIHaveHighestBid(), account.userKey)
+  // @ts-expect-error a ctUint64 does not decrypt to a boolean
+  decryptCtBool(await token.balanceOf(), account.userKey)
+
+  const { ctInt, signature } = await prepareItUint64(BigInt(1), account, address, selector)
+  await dataOnChain.setSomeEncryptedValueEncryptedInput(ctInt, signature)
+  await dataOnChain.setNetworkSomeEncryptedValue(await dataOnChain.getNetworkSomeEncryptedValue())
+  await dataOnChain.setNetworkSomeEncryptedValue(asMpcValue<CtUint64>(ctInt))
+}
+
+describe("MPC value types", function () {
+  const outDir = path.resolve(hre.config.paths.root, hre.config.typechain.outDir)
+
+  function readTypings(dir = outDir): Record<string, string> {
+    return Object.assign(
+      {},
+      ...fs.readdirSync(dir, { withFileTypes: true }).map((entry) => {
+        const entryPath = path.join(dir, entry.name)
+        return entry.isDirectory() ? readTypings(entryPath) : { [entryPath]: fs.readFileSync(entryPath, "utf8") }
+      })
+    )
+  }
+
+  it("types ct, gt and input text parameters from the ABI internalType", function () {
+    const typings = readTypings()
+    const dataOnChain = typings[path.join(outDir, "contracts/examples/DataOnChain.ts")]
+    const token = typings[path.join(outDir, "contracts/token/ERC20/ConfidentialERC20.ts")]
+
+    expect(dataOnChain).to.include("[networkEncrypted: CtUint64]")
+    expect(dataOnChain).to.include('[_itCT: ItUint64["ctInt"], _itSignature: ItUint64["signature"]]')
+    expect(dataOnChain).to.include("export type OutputTuple = [_from: string, ctUserSomeEncryptedValue: CtUint64]")
+    expect(token).to.match(
+      /contractTransfer: TypedContractMethod<\s*\[_to: AddressLike, _value: GtUint64\],\s*\[GtBool\]/
+    )
+  })
+
+  it("leaves already branded typings unchanged", async function () {
+    const before = readTypings()
+
+    await brandContractTypings(outDir, hre.artifacts)
+
+    expect(readTypings()).to.deep.equal(before)
+  })
+})
@@ -0,0 +1,92 @@
+import hre from "hardhat"
+import { expect } from "chai"
+import { setupAccounts } from "./util/onboard"
+import { decryptUint } from "./util/crypto"
+import { sendTransaction } from "./util/transactions"
+
+async function deploy() {
+  const users = await setupAccounts(3)
+
+  const factory = await hre.ethers.getContractFactory("PrecompilesOffboardToUserKeyTestContract", users[0].wallet)
+  const contract = await factory.deploy()
+  await contract.waitForDeployment()
+
+  return { contract, users }
+}
+
+type Values = { bool: boolean; uints: [bigint, bigint, bigint, bigint] }
+
+const types = ["bool", "uint8", "uint16", "uint32", "uint64"]
+const max = (bits: number) => (BigInt(1) << BigInt(bits)) - BigInt(1)
+
+// bool, uint8, uint16, uint32 and uint64 values offboarded together
+const valueSets: Values[] = [
+  { bool: false, uints: [BigInt(0), BigInt(0), BigInt(0), BigInt(0)] },
+  { bool: true, uints: [BigInt(1), BigInt(1), BigInt(1), BigInt(1)] },
+  { bool: true, uints: [max(8), max(16), max(32), max(64)] },
+  { bool: false, uints: [BigInt(0x5a), BigInt(0x1234), BigInt(0xdeadbeef), BigInt("0x0123456789abcdef")] },
+]
+
+const expectedOf = ({ bool, uints }: Values) => [BigInt(bool ? 1 : 0), ...uints]
+const describeValues = ({ bool, uints }: Values) => `${bool}, ${uints.join(", ")}`
+
+describe("Offboard to user", function () {
+  let deployment: Awaited<ReturnType<typeof deploy>>
+
+  before(async function () {
+    deployment = await deploy()
+  })
+
+  // Decrypting with another user key gives random bits, so no type should ever come out right
+  function expectOnlyOwnerDecrypts(cts: bigint[], expected: bigint[], recipient: number) {
+    deployment.users.forEach((user, i) => {
+      types.forEach((type, t) => {
+        const decrypted = decryptUint(cts[t], user.userKey)
+        if (i === recipient) {
+          expect(decrypted).to.equal(expected[t], `${type} should decrypt with the recipient key`)
+        } else {
+          expect(decrypted).to.not.equal(expected[t], `${type} of user ${recipient} decrypted by user ${i}`)
+        }
+      })
+    })
+  }
+
+  for (const values of valueSets) {
+    for (const recipient of [0, 1, 2]) {
+      it(`offBoardToUser(${describeValues(
+        values
+      )}) to user ${recipient} only decrypts with its key`, async function () {
+        const { contract, users } = deployment
+
+        await sendTransaction(
+          contract.offboardToUserAllTypesTest,
+          values.bool,
+          values.uints,
+          users[recipient].wallet.address
+        )
+
+        expectOnlyOwnerDecrypts([...(await contract.getUserCTs())], expectedOf(values), recipient)
+      })
+    }
+
+    it(`offBoardCombined(${describeValues(
+      values
+    )}) returns a network and a user ciphertext of the same value`, async function () {
+      const { contract, users } = deployment
+      const recipient = 1
+
+      await sendTransaction(contract.offboardCombinedTest, values.bool, values.uints, users[recipient].wallet.address)
+
+      const [userCTs, networkCTs, networkValues] = await contract.getCombinedResults()
+      const expected = expectedOf(values)
+      expect([...networkValues]).to.deep.equal(expected)
+      expectOnlyOwnerDecrypts([...userCTs], expected, recipient)
+
+      // the network ciphertext is not the user one and is useless with the user key
+      types.forEach((type, t) => {
+        expect(networkCTs[t]).to.not.equal(userCTs[t], type)
+        expect(decryptUint(networkCTs[t], users[recipient].userKey)).to.not.equal(expected[t], type)
+      })
+    })
+  }
+})
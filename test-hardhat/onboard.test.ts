@@ -0,0 +1,97 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import { type Wallet, parseEther, toBeHex } from "ethers"
+import { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { emulatorUserKey, isEmulatedNetwork } from "./util/mpc-emulator"
+import { PlaintextKeystore } from "./util/keystore"
+import { openProfile } from "./util/profiles"
+import { setupKeystoreAccounts } from "./util/onboard"
+
+// The keystore path of setupAccounts, the one devnet takes, run against the in-process network. The emulator hands out
+// its user keys in clear where the sdk expects them RSA-encrypted, so onboarding derives them instead.
+describe("Keystore accounts", function () {
+  let tmpDir: string
+  let keystore: PlaintextKeystore
+  let onboarded: string[]
+
+  const onboard = async (wallet: Wallet) => {
+    onboarded.push(wallet.address)
+    return new ConfidentialAccount(wallet, emulatorUserKey(wallet.address))
+  }
+
+  before(function () {
+    if (!isEmulatedNetwork()) this.skip()
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "onboard-"))
+  })
+
+  after(function () {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  let snapshot: string
+  beforeEach(async function () {
+    keystore = new PlaintextKeystore(path.join(tmpDir, `${Math.random().toString(16).slice(2)}.json`))
+    onboarded = []
+    snapshot = await hre.network.provider.send("evm_snapshot")
+  })
+
+  afterEach(async function () {
+    await hre.network.provider.send("evm_revert", [snapshot])
+  })
+
+  async function createFunder(balance: bigint) {
+    const { entries } = await keystore.create(await openProfile(hre, keystore), 1)
+    await hre.network.provider.send("hardhat_setBalance", [entries[0].address, toBeHex(balance)])
+    return entries[0]
+  }
+
+  it("Refuses to go on with a funder it just created", async function () {
+    const error = await setupKeystoreAccounts(2, { keystore, onboard }).then(
+      () => undefined,
+      (error: Error) => error
+    )
+
+    expect(error?.message).to.match(/Created new random account .* Please use faucet/)
+  })
+
+  it("Tops up only the accounts below the minimum balance", async function () {
+    await createFunder(parseEther("10"))
+    const { entries } = await keystore.create(await openProfile(hre, keystore), 3)
+    await hre.network.provider.send("hardhat_setBalance", [entries[1].address, toBeHex(parseEther("1"))])
+
+    await setupKeystoreAccounts(3, { keystore, onboard, minBalance: parseEther("0.5"), topUpAmount: parseEther("2") })
+
+    expect(await hre.ethers.provider.getBalance(entries[1].address)).to.equal(parseEther("1"))
+    expect(await hre.ethers.provider.getBalance(entries[2].address)).to.equal(parseEther("2"))
+  })
+
+  it("Asks for the faucet when the funder cannot top up every account", async function () {
+    const funder = await createFunder(parseEther("0.15"))
+
+    const error = await setupKeystoreAccounts(3, { keystore, onboard }).then(
+      () => undefined,
+      (error: Error) => error
+    )
+
+    expect(error?.message).to.include(`Please use faucet to fund account ${funder.address}`)
+  })
+
+  it("Onboards only the accounts without a user key and saves their keys", async function () {
+    const funder = await createFunder(parseEther("10"))
+    const profile = await openProfile(hre, keystore)
+    await keystore.rotate(profile, funder.address, emulatorUserKey(funder.address))
+
+    const accounts = await setupKeystoreAccounts(3, { keystore, onboard })
+
+    expect(onboarded).to.deep.equal(accounts.slice(1).map((account) => account.wallet.address))
+    const entries = await keystore.load(profile)
+    expect(entries.map((entry) => entry.userKey)).to.deep.equal(accounts.map((account) => account.userKey))
+
+    onboarded = []
+    await setupKeystoreAccounts(3, { keystore, onboard })
+    expect(onboarded).to.deep.equal([])
+  })
+})
@@ -0,0 +1,229 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import hre from "hardhat"
+import { expect } from "chai"
+import { TransactionResponse } from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { setupAccounts } from "./util/onboard"
+import { deployModule } from "./util/deployments"
+import { useFixture } from "./util/fixtures"
+import { isEmulatedNetwork } from "./util/mpc-emulator"
+import { decryptCtUint, prepareItUint64 } from "./util/mpc-values"
+import { sendTransaction, submitTransaction } from "./util/transactions"
+import { PayoutCheckpoint, type PayoutStatus, hashPayoutCsv, parsePayoutCsv, payout } from "./util/payouts"
+import ERC20ExampleModule from "../ignition/modules/ERC20Example"
+
+async function deploy() {
+  const [owner, payer, alice, bob] = await setupAccounts(4)
+
+  const { addresses } = await deployModule(ERC20ExampleModule, [owner, payer], { fresh: true })
+  const token = await hre.ethers.getContractAt("ConfidentialERC20", addresses.token, owner.wallet)
+  await sendTransaction(token["transfer(address,uint64,bool)"], payer.wallet.address, 100, false)
+
+  return { token, owner, payer, alice, bob }
+}
+
+describe("Confidential payouts", function () {
+  const deployment = useFixture(deploy)
+  let checkpointDir: string
+
+  before(function () {
+    checkpointDir = fs.mkdtempSync(path.join(os.tmpdir(), "payouts-"))
+  })
+
+  after(function () {
+    fs.rmSync(checkpointDir, { recursive: true, force: true })
+  })
+
+  // A new checkpoint file for every test, the chain is reverted between them
+  let checkpointPath: string
+  beforeEach(function () {
+    checkpointPath = path.join(checkpointDir, `${this.currentTest!.title.replace(/\W+/g, "-")}.json`)
+  })
+
+  async function balanceOf(account: ConfidentialAccount) {
+    const ct = await deployment().token.connect(account.wallet).balanceOf()
+    return ct === BigInt(0) ? BigInt(0) : decryptCtUint(ct, account.userKey)
+  }
+
+  function run(csv: string, options: Parameters<typeof payout>[5] = {}) {
+    const { token, payer } = deployment()
+    const checkpoint = new PayoutCheckpoint(checkpointPath)
+    return payout(token, payer, parsePayoutCsv(csv), checkpoint, hashPayoutCsv(csv), options)
+  }
+
+  function states(statuses: Map<unknown, PayoutStatus>) {
+    return [...statuses.values()].map((status) => status.state)
+  }
+
+  it("Parses address,amount lines and names the line of a bad one", function () {
+    const { alice, bob } = deployment()
+    const csv = `address,amount\n${alice.wallet.address},10\n\n# bonus\n${bob.wallet.address.toLowerCase()}, 5\n`
+
+    expect(parsePayoutCsv(csv)).to.deep.equal([
+      { line: 2, to: alice.wallet.address, amount: BigInt(10) },
+      { line: 5, to: bob.wallet.address, amount: BigInt(5) },
+    ])
+    expect(() => parsePayoutCsv(`${alice.wallet.address},10\n0x1234,5`)).to.throw("Line 2")
+    expect(() => parsePayoutCsv(`${alice.wallet.address},1.5`)).to.throw("Line 1")
+    expect(() => parsePayoutCsv(`${alice.wallet.address},18446744073709551616`)).to.throw("Line 1")
+  })
+
+  it("Pays every line and checkpoints it as paid", async function () {
+    const { payer, alice, bob } = deployment()
+    const csv = `${alice.wallet.address},10\n${bob.wallet.address},20\n${alice.wallet.address},5\n`
+
+    const { statuses, sent } = await run(csv, { window: 2 })
+
+    expect(sent).to.equal(3)
+    expect(states(statuses)).to.deep.equal(["paid", "paid", "paid"])
+    expect(await balanceOf(payer)).to.equal(BigInt(65))
+    expect(await balanceOf(alice)).to.equal(BigInt(15))
+    expect(await balanceOf(bob)).to.equal(BigInt(20))
+
+    const { payouts } = JSON.parse(fs.readFileSync(checkpointPath, "utf8"))
+    expect(Object.keys(payouts)).to.deep.equal(["1", "2", "3"])
+
+    // nothing is left to send
+    expect((await run(csv)).sent).to.equal(0)
+    expect(await balanceOf(alice)).to.equal(BigInt(15))
+  })
+
+  it("Resumes after a crash without paying a line twice", async function () {
+    const { token, payer, alice, bob } = deployment()
+    const csv = `${alice.wallet.address},10\n${bob.wallet.address},20\n${alice.wallet.address},5\n${bob.wallet.address},1\n`
+    const csvHash = hashPayoutCsv(csv)
+
+    // line 1 was paid, line 2 was sent when the run crashed and line 3 was sent but never reached the node
+    const transfer = token.connect(payer.wallet)["transfer(address,uint256,bytes,bool)"]
+    const address = await token.getAddress()
+    const paid = parsePayoutCsv(csv).slice(0, 2)
+    const hashes = []
+    for (const { to, amount } of paid) {
+      const { ctInt, signature } = await prepareItUint64(amount, payer, address, transfer.fragment.selector)
+      hashes.push((await submitTransaction(transfer, to, ctInt, signature, false)).hash)
+    }
+    const nonce = await payer.wallet.getNonce("latest")
+    const { chainId } = await hre.ethers.provider.getNetwork()
+    const checkpoint = new PayoutCheckpoint(checkpointPath)
+    checkpoint.open({ chainId: chainId.toString(), token: address, sender: payer.wallet.address, csvHash })
+    checkpoint.record({
+      1: { state: "paid", nonce: nonce - 2, hash: hashes[0], blockNumber: 0 },
+      2: { state: "sent", nonce: nonce - 1, hash: hashes[1] },
+      3: { state: "sent", nonce, hash: hre.ethers.id("dropped") },
+    })
+
+    const { statuses, sent } = await run(csv)
+
+    expect(sent).to.equal(2)
+    expect(states(statuses)).to.deep.equal(["paid", "paid", "paid", "paid"])
+    expect(await balanceOf(payer)).to.equal(BigInt(64))
+    expect(await balanceOf(alice)).to.equal(BigInt(15))
+    expect(await balanceOf(bob)).to.equal(BigInt(21))
+  })
+
+  it("Leaves a line unverified when its nonce was taken by a transaction the node does not know", async function () {
+    const { token, payer, alice, bob } = deployment()
+    const csv = `${alice.wallet.address},10\n${bob.wallet.address},20\n`
+
+    // line 1 was checkpointed as sent, then the run crashed and another transaction took its nonce
+    const nonce = await payer.wallet.getNonce("latest")
+    const { chainId } = await hre.ethers.provider.getNetwork()
+    const checkpoint = new PayoutCheckpoint(checkpointPath)
+    const payoutRun = { chainId: chainId.toString(), token: await token.getAddress(), sender: payer.wallet.address }
+    checkpoint.open({ ...payoutRun, csvHash: hashPayoutCsv(csv) })
+    checkpoint.record({ 1: { state: "sent", nonce, hash: hre.ethers.id("replaced") } })
+    await sendTransaction(token.connect(payer.wallet)["transfer(address,uint64,bool)"], bob.wallet.address, 1, false)
+
+    const { statuses, sent } = await run(csv)
+
+    expect(sent).to.equal(1)
+    expect(states(statuses)).to.deep.equal(["unverified", "paid"])
+    expect(await balanceOf(alice)).to.equal(BigInt(0))
+  })
+
+  it("Marks a line the node refuses as failed, leaves the next ones and pays them on the next run", async function () {
+    const { payer, alice, bob } = deployment()
+    const csv = `${alice.wallet.address},10\n${bob.wallet.address},20\n`
+
+    // signed and checkpointed, then refused when broadcast
+    const refused = await run(csv, { overrides: { gasLimit: 20000 } })
+
+    expect(refused.sent).to.equal(0)
+    expect([...refused.statuses.values()]).to.have.length(1)
+    expect(refused.statuses.values().next().value).to.include({ state: "failed" })
+
+    const { statuses, sent } = await run(csv)
+
+    expect(sent).to.equal(2)
+    expect(states(statuses)).to.deep.equal(["paid", "paid"])
+    expect(await balanceOf(payer)).to.equal(BigInt(70))
+  })
+
+  it("Looks a transfer up again when waiting for it fails, and does not send it twice", async function () {
+    const { payer, alice } = deployment()
+    const csv = `${alice.wallet.address},10\n`
+
+    // the first wait fails as on a timeout or a dropped connection, without a receipt, while the transfer is mined
+    const wait = TransactionResponse.prototype.wait
+    TransactionResponse.prototype.wait = async function () {
+      TransactionResponse.prototype.wait = wait
+      throw new Error("timeout")
+    }
+    let result: Awaited<ReturnType<typeof run>>
+    try {
+      result = await run(csv)
+    } finally {
+      TransactionResponse.prototype.wait = wait
+    }
+
+    expect(result.sent).to.equal(1)
+    expect(states(result.statuses)).to.deep.equal(["paid"])
+
+    expect((await run(csv)).sent).to.equal(0)
+    expect(await balanceOf(payer)).to.equal(BigInt(90))
+    expect(await balanceOf(alice)).to.equal(BigInt(10))
+  })
+
+  it("Marks the lines the balance does not cover as failed and pays them on the next run", async function () {
+    if (!isEmulatedNetwork()) this.skip()
+    const { token, payer, alice, bob } = deployment()
+    const csv = `${alice.wallet.address},60\n${bob.wallet.address},50\n${alice.wallet.address},30\n`
+
+    // all three in one block: the second transfer finds 40 left and moves nothing, the third one still goes through
+    await hre.network.provider.send("evm_setAutomine", [false])
+    await hre.network.provider.send("evm_setIntervalMining", [1000])
+    let statuses: Map<unknown, PayoutStatus>
+    try {
+      ;({ statuses } = await run(csv, { overrides: { gasLimit: 3000000 } }))
+    } finally {
+      await hre.network.provider.send("evm_setIntervalMining", [0])
+      await hre.network.provider.send("evm_setAutomine", [true])
+    }
+
+    const blocks = [...statuses.values()].map((status) => (status.state === "paid" ? status.blockNumber : undefined))
+    expect(blocks[0]).to.equal(blocks[2])
+    expect(states(statuses)).to.deep.equal(["paid", "failed", "paid"])
+    expect(await balanceOf(payer)).to.equal(BigInt(10))
+    expect(await balanceOf(bob)).to.equal(BigInt(0))
+
+    await sendTransaction(token["transfer(address,uint64,bool)"], payer.wallet.address, 40, false)
+    const rerun = await run(csv)
+
+    expect(rerun.sent).to.equal(1)
+    expect(states(rerun.statuses)).to.deep.equal(["paid", "paid", "paid"])
+    expect(await balanceOf(bob)).to.equal(BigInt(50))
+  })
+
+  it("Refuses a checkpoint written for another CSV", async function () {
+    const { alice } = deployment()
+    await run(`${alice.wallet.address},1\n`)
+
+    const error = await run(`${alice.wallet.address},2\n`).then(
+      () => undefined,
+      (error) => error
+    )
+    expect(error?.message).to.include("belongs to another run: csvHash")
+  })
+})
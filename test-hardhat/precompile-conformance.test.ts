@@ -0,0 +1,67 @@
+import hre from "hardhat"
+import { expect } from "chai"
+import { FunctionFragment } from "ethers"
+import { setupAccounts } from "./util/onboard"
+import { sendTransaction } from "./util/transactions"
+import {
+  ARGS,
+  type CaseOutcome,
+  caseTitle,
+  generateCases,
+  mpcTypeOf,
+  specFromEnv,
+  verifiedValues,
+  writeConformanceReport,
+} from "./util/precompile-conformance"
+
+async function deploy() {
+  const [owner] = await setupAccounts()
+
+  const factory = await hre.ethers.getContractFactory("PrecompilesConformanceTestsContract", owner.wallet)
+  const contract = await factory.deploy()
+  await contract.waitForDeployment()
+
+  return { contract, owner }
+}
+
+describe("Precompile conformance", function () {
+  let deployment: Awaited<ReturnType<typeof deploy>>
+  const outcomes: CaseOutcome[] = []
+
+  before(async function () {
+    deployment = await deploy()
+  })
+
+  after(function () {
+    writeConformanceReport(outcomes)
+  })
+
+  for (const testCase of generateCases(specFromEnv())) {
+    const { op, lhsType, rhsType, args, resultType, lhs, rhs, expected } = testCase
+
+    it(`${caseTitle(testCase)} matches the reference model on 0, 1, max-1 and max`, async function () {
+      const { contract } = deployment
+      const selector = FunctionFragment.from(`${op}(bytes3,uint256,uint256)`).selector
+
+      try {
+        await sendTransaction(
+          contract.binaryOpTest,
+          selector,
+          mpcTypeOf(lhsType),
+          mpcTypeOf(rhsType),
+          ARGS[args],
+          mpcTypeOf(resultType),
+          lhs,
+          rhs
+        )
+      } catch (error) {
+        outcomes.push({ ...testCase, error: String(error) })
+        throw error
+      }
+
+      const actual = [...(await contract.getResults())]
+      outcomes.push({ ...testCase, actual })
+      expect(verifiedValues(testCase, actual)).to.deep.equal(verifiedValues(testCase, expected))
+    })
+  }
+})
@@ -1,9 +1,7 @@
 import hre from "hardhat"
 import { expect } from "chai"
 import { setupAccounts } from "./util/onboard"
-
-const gasLimit = 12000000
-let last_random_value = 0
+import { sendTransaction } from "./util/transactions"
 
 function buildTest(
   contractName: string,
@@ -16,15 +14,12 @@ function buildTest(
     const [owner] = await setupAccounts()
 
     const factory = await hre.ethers.getContractFactory(contractName, owner.wallet)
-    const contract = await factory.deploy({ gasLimit })
+    const contract = await factory.deploy()
     await contract.waitForDeployment()
 
-    await (await contract.getFunction(func)(...params, { gasLimit })).wait()
+    await sendTransaction(contract.getFunction(func), ...params)
     const result = await contract.getFunction(resFunc)()
-    if (resFunc === "getRandom") {
-      expect(result).to.not.equal(expectedResults[0])
-      last_random_value = result
-    } else if (expectedResults.length === 1) {
+    if (expectedResults.length === 1) {
       expect(result).to.equal(expectedResults[0])
     } else {
       expect(result).to.deep.equal(expectedResults)
@@ -32,15 +27,29 @@ function buildTest(
   })
 }
 
+// Two calls can keep the same random value, so only its bound is checked here, test-randomness checks the distribution
+function buildRandomTest(func: string, params: number[], bound: bigint) {
+  it(`PrecompilesMiscellaneous1TestsContract.${func}(${params}) should keep a value of at most ${bound}`, async function () {
+    const [owner] = await setupAccounts()
+
+    const factory = await hre.ethers.getContractFactory("PrecompilesMiscellaneous1TestsContract", owner.wallet)
+    const contract = await factory.deploy()
+    await contract.waitForDeployment()
+
+    await sendTransaction(contract.getFunction(func), ...params)
+    expect(await contract.getRandom()).to.be.at.most(bound)
+  })
+}
+
 function buildTestWithUser(contractName: string, func: string, resFunc: string, param: bigint | number | boolean) {
-  it(`${contractName}.${func}(${params}, <address>) should return the correct user decrypted value`, async function () {
+  it(`${contractName}.${func}(${param}, <address>) should return the correct user decrypted value`, async function () {
     const [owner] = await setupAccounts()
 
     const factory = await hre.ethers.getContractFactory(contractName, owner.wallet)
-    const contract = await factory.deploy({ gasLimit })
+    const contract = await factory.deploy()
     await contract.waitForDeployment()
 
-    await (await contract.getFunction(func)(param, owner.wallet.address, { gasLimit: 12000000 })).wait()
+    await sendTransaction(contract.getFunction(func), param, owner.wallet.address)
     const results = await contract.getFunction(resFunc)()
     for (const result of results) {
       expect(owner.decryptValue(result)).to.equal(param)
@@ -94,8 +103,8 @@ describe("Precompile", function () {
 
   buildTestWithUser("PrecompilesOffboardToUserKeyTestContract", "offboardToUserTest", "getCTs", a)
 
-  buildTest("PrecompilesMiscellaneous1TestsContract", "randomTest", "getRandom", [], last_random_value)
-  buildTest("PrecompilesMiscellaneous1TestsContract", "randomBoundedTest", "getRandom", [numBits], last_random_value)
+  buildRandomTest("randomTest", [], BigInt(255))
+  buildRandomTest("randomBoundedTest", [numBits], BigInt(2 ** numBits - 1))
   buildTest(
     "PrecompilesMiscellaneous1TestsContract",
     "booleanTest",
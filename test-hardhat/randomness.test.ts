@@ -0,0 +1,101 @@
+import hre from "hardhat"
+import { expect } from "chai"
+import { setupAccounts } from "./util/onboard"
+import {
+  type RandomnessOutcome,
+  bitsOf,
+  configTitle,
+  evaluateSamples,
+  randomnessConfigs,
+  sampleBits,
+  thresholdsFromEnv,
+  writeRandomnessReport,
+} from "./util/randomness"
+import { mpcTypeOf } from "./util/precompile-conformance"
+import { sendTransaction } from "./util/transactions"
+
+// random values generated per transaction
+const batchSize = 64
+
+async function deploy() {
+  const [owner] = await setupAccounts()
+
+  const factory = await hre.ethers.getContractFactory("PrecompilesMiscellaneous1TestsContract", owner.wallet)
+  const contract = await factory.deploy()
+  await contract.waitForDeployment()
+
+  return { contract, owner }
+}
+
+describe("Randomness", function () {
+  let deployment: Awaited<ReturnType<typeof deploy>>
+  const configs = randomnessConfigs()
+  // a chi-square and a runs test per configuration
+  const { samples: sampleCount, alpha } = thresholdsFromEnv(2 * configs.length)
+  const outcomes: RandomnessOutcome[] = []
+
+  before(async function () {
+    deployment = await deploy()
+  })
+
+  after(function () {
+    writeRandomnessReport(outcomes, alpha)
+  })
+
+  async function sample(type: keyof typeof bitsOf, numBits: number | undefined, count: number) {
+    const { contract } = deployment
+    const receipt = await sendTransaction(
+      contract.randomSamplesTest,
+      mpcTypeOf(type),
+      numBits !== undefined,
+      numBits ?? 0,
+      count
+    )
+
+    // the samples of this transaction, not of the first RandomSamples logged from its block on
+    const event = receipt.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "RandomSamples")
+    if (!event) throw new Error(`randomSamplesTest emitted no RandomSamples in ${receipt.hash}`)
+    return [...(event.args.samples as bigint[])]
+  }
+
+  for (const config of configs) {
+    const bound = (BigInt(1) << BigInt(sampleBits(config))) - BigInt(1)
+
+    it(`${configTitle(config)} stays at most ${bound} and passes the chi-square and runs tests`, async function () {
+      const samples: bigint[] = []
+      while (samples.length < sampleCount) {
+        samples.push(...(await sample(config.type, config.numBits, Math.min(batchSize, sampleCount - samples.length))))
+      }
+
+      const outcome = evaluateSamples(config, samples, alpha)
+      outcomes.push(outcome)
+
+      expect(outcome.outOfBound).to.equal(0, `largest value ${outcome.max}`)
+      expect(outcome.chiSquare.pValue).to.be.at.least(alpha, `chi-square statistic ${outcome.chiSquare.statistic}`)
+      expect(outcome.runs.pValue).to.be.at.least(alpha, `${outcome.runs.runs} runs, ${outcome.runs.expected} expected`)
+    })
+  }
+
+  // randomTest and randomBoundedTest check their own values on chain and keep the first uint8 one they generate
+  const calls = 16
+  for (const numBits of [undefined, 1, 7]) {
+    const title = numBits === undefined ? "randomTest()" : `randomBoundedTest(${numBits})`
+    const bound = BigInt(numBits === undefined ? 255 : 2 ** numBits - 1)
+
+    it(`${title} keeps a new value of at most ${bound} on each of ${calls} calls`, async function () {
+      const { contract } = deployment
+      const values: bigint[] = []
+      for (let i = 0; i < calls; i++) {
+        await (numBits === undefined
+          ? sendTransaction(contract.randomTest)
+          : sendTransaction(contract.randomBoundedTest, numBits))
+        values.push(await contract.getRandom())
+      }
+
+      expect(values.every((value) => value <= bound)).to.equal(true, `values ${values}`)
+      expect(new Set(values).size).to.be.greaterThan(1, `every call kept ${values[0]}`)
+    })
+  }
+})
@@ -0,0 +1,127 @@
+import { expect } from "chai"
+import { type BigNumberish, type Overrides, type TransactionResponse, FunctionFragment, id } from "ethers"
+import type { TypedContractMethod } from "../typechain-types/common"
+import { asLiveNetwork } from "./util/mpc-emulator"
+import { submitTransaction, transactionError, waitForTransaction } from "./util/transactions"
+
+const address = "0x0000000000000000000000000000000000001234"
+const fragment = FunctionFragment.from("function pay(uint256 amount)")
+const blockGasLimit = BigInt(30000000)
+
+// A contract method on a scripted provider: send() throws the queued errors one after the other, then goes through.
+// The overrides of every attempt are kept.
+function stubMethod({ estimate = BigInt(100000), errors = [] as Error[] } = {}) {
+  const sent: Overrides[] = []
+  const provider = {
+    getBlock: async () => ({ gasLimit: blockGasLimit }),
+    // code no artifact has, the call is named after the address and the selector
+    getCode: async () => "0xfe",
+    getFeeData: async () => ({ gasPrice: null, maxFeePerGas: BigInt(100), maxPriorityFeePerGas: BigInt(10) }),
+  }
+  const method = {
+    _contract: { runner: { provider }, getAddress: async () => address },
+    getFragment: () => fragment,
+    estimateGas: async () => estimate,
+    send: async (...args: unknown[]) => {
+      sent.push({ ...(args[args.length - 1] as Overrides) })
+      const error = errors.shift()
+      if (error) throw error
+      return { hash: id(`attempt ${sent.length}`) }
+    },
+  }
+
+  return {
+    method: method as unknown as TypedContractMethod<[amount: BigNumberish], void, "nonpayable">,
+    provider,
+    sent,
+  }
+}
+
+describe("Transactions", function () {
+  it("Estimates the gas limit with a 20% margin, capped at the block gas limit", async function () {
+    const small = stubMethod({ estimate: BigInt(100000) })
+    const large = stubMethod({ estimate: BigInt(29000000) })
+    const set = stubMethod()
+
+    await asLiveNetwork(async () => {
+      await submitTransaction(small.method, 1)
+      await submitTransaction(large.method, 1)
+      await submitTransaction(set.method, 1, { gasLimit: 50000 })
+    })
+
+    expect(small.sent[0].gasLimit).to.equal(BigInt(120000))
+    expect(large.sent[0].gasLimit).to.equal(blockGasLimit)
+    expect(set.sent[0].gasLimit).to.equal(50000)
+  })
+
+  it("Gives every call the block gas limit on the emulated network", async function () {
+    const { method, sent } = stubMethod({ estimate: BigInt(100000) })
+
+    await submitTransaction(method, 1)
+
+    expect(sent[0].gasLimit).to.equal(blockGasLimit)
+  })
+
+  it("Sends again after a nonce error", async function () {
+    const { method, sent } = stubMethod({ errors: [new Error("nonce too low: next nonce 8, tx nonce 7")] })
+
+    const { hash } = await submitTransaction(method, 1)
+
+    expect(sent).to.have.length(2)
+    expect(hash).to.equal(id("attempt 2"))
+  })
+
+  it("Does not send again after a nonce error when the overrides set the nonce", async function () {
+    const { method, sent } = stubMethod({ errors: [new Error("nonce too low: next nonce 8, tx nonce 7")] })
+
+    const failure = await transactionError(submitTransaction(method, 1, { nonce: 7 }))
+
+    expect(sent).to.have.length(1)
+    expect(failure?.stage).to.equal("send")
+    expect(failure?.message).to.include("could not be sent: nonce too low")
+  })
+
+  it("Raises the fees by 20% more after every underpriced error", async function () {
+    const underpriced = () => new Error("replacement transaction underpriced")
+    const { method, sent } = stubMethod({ errors: [underpriced(), underpriced()] })
+
+    await submitTransaction(method, 1)
+
+    expect(sent.map(({ maxFeePerGas, maxPriorityFeePerGas }) => [maxFeePerGas, maxPriorityFeePerGas])).to.deep.equal([
+      [undefined, undefined],
+      [BigInt(120), BigInt(12)],
+      [BigInt(140), BigInt(14)],
+    ])
+  })
+
+  it("Gives up after three retries", async function () {
+    const underpriced = () => new Error("replacement transaction underpriced")
+    const { method, sent } = stubMethod({ errors: [underpriced(), underpriced(), underpriced(), underpriced()] })
+
+    const failure = await transactionError(submitTransaction(method, 1))
+
+    expect(sent).to.have.length(4)
+    expect(failure?.stage).to.equal("send")
+    expect(failure?.message).to.equal(
+      `${address}.${fragment.selector} could not be sent: replacement transaction underpriced`
+    )
+  })
+
+  it("Reports a wait that fails without a receipt at the wait stage, not as a revert", async function () {
+    const { provider } = stubMethod()
+    const response = {
+      provider,
+      to: address,
+      data: fragment.selector,
+      wait: async () => {
+        throw new Error("timeout")
+      },
+    } as unknown as TransactionResponse
+
+    const failure = await transactionError(waitForTransaction(response))
+
+    expect(failure?.stage).to.equal("wait")
+    expect(failure?.receipt).to.equal(undefined)
+    expect(failure?.message).to.equal(`${address}.${fragment.selector} was sent but could not be waited for: timeout`)
+  })
+})
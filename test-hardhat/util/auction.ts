@@ -0,0 +1,203 @@
+import type { Overrides } from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ConfidentialAuction, ERC20Example } from "../../typechain-types"
+import { decryptUint } from "./crypto"
+import { sendTransaction } from "./transactions"
+import { prepareItUint64 } from "./mpc-values"
+
+// Drives ConfidentialAuction and the token it takes bids in. Every method takes the account acting, and the bid of
+// each bidder is decrypted with getBid after each of its bids.
+export class AuctionClient {
+  readonly bids = new Map<string, bigint>()
+
+  constructor(
+    readonly auction: ConfidentialAuction,
+    readonly token: ERC20Example,
+    readonly overrides: Overrides = {}
+  ) {}
+
+  // Approves the auction for the whole amount, then sends it encrypted. When raising a bid only the difference with
+  // the previous one is transferred.
+  async bid(bidder: ConfidentialAccount, amount: bigint) {
+    const auction = this.auction.connect(bidder.wallet)
+    const address = await auction.getAddress()
+
+    await sendTransaction(this.token.connect(bidder.wallet).approveClear, address, amount, this.overrides)
+    const { ctInt, signature } = await prepareItUint64(amount, bidder, address, auction.bid.fragment.selector)
+    await sendTransaction(auction.bid, ctInt, signature, this.overrides)
+
+    this.bids.set(bidder.wallet.address, await this.getBid(bidder))
+  }
+
+  // Only meaningful while bidding: claim and withdraw leave a ciphertext that getBid cannot onboard
+  async getBid(bidder: ConfidentialAccount) {
+    const ct = await this.auction.connect(bidder.wallet).getBid.staticCall(this.overrides)
+    return decrypt(ct, bidder)
+  }
+
+  async stop(owner: ConfidentialAccount) {
+    await sendTransaction(this.auction.connect(owner.wallet).stop, this.overrides)
+  }
+
+  async doIHaveHighestBid(bidder: ConfidentialAccount) {
+    const ct = await this.auction.connect(bidder.wallet).doIHaveHighestBid.staticCall(this.overrides)
+    return decrypt(ct, bidder) === BigInt(1)
+  }
+
+  // Returns whether the bidder won, i.e. the claim emitted Winner
+  async claim(bidder: ConfidentialAccount) {
+    const auction = this.auction.connect(bidder.wallet)
+    const receipt = await sendTransaction(auction.claim, this.overrides)
+
+    return receipt.logs.some((log) => auction.interface.parseLog(log)?.name === "Winner")
+  }
+
+  async withdraw(bidder: ConfidentialAccount) {
+    await sendTransaction(this.auction.connect(bidder.wallet).withdraw, this.overrides)
+  }
+
+  // Transfers the highest bid to the beneficiary, anyone can call it once the auction ended
+  async auctionEnd(account: ConfidentialAccount) {
+    await sendTransaction(this.auction.connect(account.wallet).auctionEnd, this.overrides)
+  }
+
+  async balanceOf(account: ConfidentialAccount) {
+    return decrypt(await this.token.connect(account.wallet).balanceOf(), account)
+  }
+}
+
+const decrypt = (ct: bigint, account: ConfidentialAccount) =>
+  ct === BigInt(0) ? BigInt(0) : decryptUint(ct, account.userKey)
+
+export type ScriptedBid = { bidder: number; amount: bigint }
+
+export type AuctionScenario = {
+  owner: ConfidentialAccount
+  beneficiary: ConfidentialAccount
+  bidders: ConfidentialAccount[]
+  // in order, bidder is an index into bidders
+  bids: ScriptedBid[]
+}
+
+export type AuctionOutcome = {
+  // bid of each bidder once bidding is over, undefined for the ones that did not bid
+  bids: (bigint | undefined)[]
+  // what doIHaveHighestBid answers to each bidder after the auction is stopped
+  highest: boolean[]
+  // index of the bidder whose claim emitted Winner
+  winner?: number
+  // token balance changes over the whole auction
+  balances: bigint[]
+  beneficiary: bigint
+}
+
+// The bids ConfidentialAuction is known to get wrong, see knownAuctionDeviation
+export type KnownAuctionDeviation = "newcomer-outbids" | "trailing-raise" | "lowered-bid"
+
+// Plain model of the auction ConfidentialAuction means to run, transfers included: the highest bid wins. A bidder
+// raises its bid by paying the difference, a bid at or below its current one changes nothing. Every bidder at the
+// highest bid counts as the highest, the first one to claim wins.
+export function expectedAuctionOutcome(bidderCount: number, bids: ScriptedBid[]): AuctionOutcome {
+  const placed = new Map<number, bigint>()
+  const balances = new Array<bigint>(bidderCount).fill(BigInt(0))
+
+  for (const { bidder, amount } of bids) {
+    const existing = placed.get(bidder) ?? BigInt(0)
+    if (amount <= existing) continue
+    placed.set(bidder, amount)
+    balances[bidder] -= amount - existing
+  }
+
+  const highest = placed.size > 0 ? [...placed.values()].reduce((a, b) => (a > b ? a : b)) : undefined
+  const isHighest = (bidder: number) => placed.has(bidder) && placed.get(bidder) === highest
+  const winner = [...placed.keys()].sort((a, b) => a - b).find(isHighest)
+  for (const [bidder, amount] of placed) {
+    if (bidder !== winner) balances[bidder] += amount
+  }
+
+  return {
+    bids: Array.from({ length: bidderCount }, (_, i) => placed.get(i)),
+    highest: Array.from({ length: bidderCount }, (_, i) => isHighest(i)),
+    winner,
+    balances,
+    beneficiary: highest ?? BigInt(0),
+  }
+}
+
+// The deviation of the first bid ConfidentialAuction handles differently from the model. It only moves the highest bid
+// when its holder bids again: a newcomer's bid is compared as 0 and never takes the lead, a bidder that is not
+// leading cannot raise its bid, and the leader can lower its bid, the transfer of the difference failing.
+export function knownAuctionDeviation(bids: ScriptedBid[]): KnownAuctionDeviation | undefined {
+  const placed = new Map<number, bigint>()
+  let highest: bigint | undefined
+
+  for (const { bidder, amount } of bids) {
+    const existing = placed.get(bidder)
+    if (existing === undefined && highest !== undefined && amount > highest) return "newcomer-outbids"
+    if (existing !== undefined && highest !== undefined && existing < highest && amount > existing) {
+      return "trailing-raise"
+    }
+    if (existing !== undefined && amount < existing) return "lowered-bid"
+
+    placed.set(bidder, amount)
+    if (highest === undefined || amount > highest) highest = amount
+  }
+
+  return undefined
+}
+
+// Plays the bids in order, stops the auction, then every bidder claims in order, the beneficiary is paid and the
+// other bidders withdraw. Returns what happened on chain and what the model expected.
+export async function runAuctionScenario(
+  client: AuctionClient,
+  { owner, beneficiary, bidders, bids }: AuctionScenario
+) {
+  const invalid = bids.find(({ bidder }) => bidder < 0 || bidder >= bidders.length)
+  if (invalid) {
+    throw new Error(`The script bids for bidder ${invalid.bidder}, there are only ${bidders.length}`)
+  }
+  const hasBid = (i: number) => bids.some(({ bidder }) => bidder === i)
+
+  // every bidder gets what it bids in total, so no transfer fails for lack of funds
+  for (const [i, bidder] of bidders.entries()) {
+    const total = bids.filter((bid) => bid.bidder === i).reduce((sum, { amount }) => sum + amount, BigInt(0))
+    if ((await client.balanceOf(bidder)) < total) {
+      const transfer = client.token.connect(owner.wallet)["transfer(address,uint64,bool)"]
+      await sendTransaction(transfer, bidder.wallet.address, total, true, client.overrides)
+    }
+  }
+
+  const initialBalances = await Promise.all(bidders.map((bidder) => client.balanceOf(bidder)))
+  const initialBeneficiary = await client.balanceOf(beneficiary)
+
+  for (const { bidder, amount } of bids) {
+    await client.bid(bidders[bidder], amount)
+  }
+  const placed = bidders.map((bidder) => client.bids.get(bidder.wallet.address))
+  await client.stop(owner)
+
+  const highest = []
+  for (const bidder of bidders) {
+    highest.push(await client.doIHaveHighestBid(bidder))
+  }
+
+  let winner: number | undefined
+  for (const [i, bidder] of bidders.entries()) {
+    if (winner === undefined && hasBid(i) && (await client.claim(bidder))) winner = i
+  }
+  await client.auctionEnd(owner)
+  for (const [i, bidder] of bidders.entries()) {
+    if (i !== winner && hasBid(i)) await client.withdraw(bidder)
+  }
+
+  const finalBalances = await Promise.all(bidders.map((bidder) => client.balanceOf(bidder)))
+  const actual: AuctionOutcome = {
+    bids: placed,
+    highest,
+    winner,
+    balances: finalBalances.map((balance, i) => balance - initialBalances[i]),
+    beneficiary: (await client.balanceOf(beneficiary)) - initialBeneficiary,
+  }
+
+  return { actual, expected: expectedAuctionOutcome(bidders.length, bids) }
+}
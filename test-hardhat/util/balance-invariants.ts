@@ -0,0 +1,207 @@
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ConfidentialERC20 } from "../../typechain-types"
+import { decryptUint } from "./crypto"
+
+// A Transfer log of either overload, value is only set by the clear one
+export type TransferLog = { transactionHash: string; from: string; to: string; value?: bigint }
+
+// What happened to the tracked balances in one block, i.e. one transaction when every transaction is mined alone
+export type BlockCheck = {
+  blockNumber: number
+  transfers: TransferLog[]
+  // balance change of every tracked account that moved, by address
+  deltas: Record<string, bigint>
+  // transfers that did not move anything, either because the transaction revealed false or because neither side
+  // changed although a non-zero amount was asked for
+  noOps: TransferLog[]
+  // transactions of the block sent with revealRes whose success flag was not read: only the first transaction of a
+  // block is replayed on its own state, the later ones are judged from the balances like the unrevealed ones
+  unreplayed: string[]
+}
+
+export class BalanceInvariantError extends Error {
+  constructor(readonly blockNumber: number, readonly violations: string[]) {
+    super(`Balance invariants broken in block ${blockNumber}:\n  ${violations.join("\n  ")}`)
+  }
+}
+
+export type BalanceInvariantOptions = {
+  // the tracked accounts hold every token, so their balances must add up to totalSupply() exactly. Otherwise they
+  // only have to stay below it.
+  complete?: boolean
+}
+
+const transferSignatures = ["Transfer(address,address,uint256)", "Transfer(address,address)"] as const
+type TokenFunction = Parameters<ConfidentialERC20["interface"]["decodeFunctionResult"]>[0]
+
+type State = { blockNumber: number; totalSupply: bigint; balances: Map<string, bigint> }
+
+// Checks a ConfidentialERC20 after every block since the last check: the decrypted balances of the tracked accounts
+// against totalSupply(), and that a balance only goes up when a Transfer in the block pays the account or when the
+// supply grows by as much. The token never reverts a transfer it cannot make, so transfers that moved nothing are
+// reported as no-ops: the transfer and transferFrom calls sent with revealRes are replayed on the state before their
+// block to read the success flag they returned, the others are judged from the balances.
+//
+// Balances are read with eth_call at past blocks, the node has to keep their state.
+export class BalanceInvariants {
+  readonly noOps: TransferLog[] = []
+  private readonly accounts = new Map<string, ConfidentialAccount>()
+  private state?: State
+
+  constructor(
+    readonly token: ConfidentialERC20,
+    accounts: ConfidentialAccount[],
+    private readonly options: BalanceInvariantOptions = {}
+  ) {
+    accounts.forEach((account) => this.track(account))
+  }
+
+  // Accounts tracked later are read from the next checked block on
+  track(account: ConfidentialAccount) {
+    this.accounts.set(account.wallet.address.toLowerCase(), account)
+  }
+
+  // Starts from the latest block, the blocks before it are not checked
+  async start() {
+    this.state = await this.read(await this.token.runner!.provider!.getBlockNumber())
+    this.assertSupply(this.state)
+    return this.state.balances
+  }
+
+  // Checks every block mined since the previous check, throws BalanceInvariantError at the first broken one
+  async check() {
+    if (!this.state) {
+      await this.start()
+      return []
+    }
+
+    const latest = await this.token.runner!.provider!.getBlockNumber()
+    const checks: BlockCheck[] = []
+    for (let blockNumber = this.state.blockNumber + 1; blockNumber <= latest; blockNumber++) {
+      const next = await this.read(blockNumber)
+      checks.push(await this.checkBlock(this.state, next))
+      this.state = next
+    }
+    return checks
+  }
+
+  private async checkBlock(previous: State, next: State): Promise<BlockCheck> {
+    const { blockNumber } = next
+    const transfers = await this.transfers(blockNumber)
+    const { failed, unreplayed } = await this.revealedFailures(blockNumber)
+
+    const deltas: Record<string, bigint> = {}
+    for (const [address, balance] of next.balances) {
+      const delta = balance - (previous.balances.get(address) ?? BigInt(0))
+      if (delta !== BigInt(0)) deltas[address] = delta
+    }
+    const deltaOf = (address: string) => deltas[address.toLowerCase()] ?? BigInt(0)
+    const isTracked = (address: string) => this.accounts.has(address.toLowerCase())
+
+    const violations = this.supplyViolations(next)
+    let minted = next.totalSupply - previous.totalSupply
+    for (const [address, delta] of Object.entries(deltas)) {
+      const received = transfers.filter(({ to }) => to.toLowerCase() === address)
+      const sent = transfers.filter(({ from }) => from.toLowerCase() === address)
+
+      if (delta > 0 && received.length === 0) {
+        // only a mint makes tokens appear without a Transfer
+        if (delta > minted) violations.push(`${address} gained ${delta} without a transfer or a mint`)
+        minted -= delta
+      }
+      if (delta > 0 && received.every(({ value }) => value !== undefined)) {
+        const paid = received.reduce((sum, { value }) => sum + value!, BigInt(0))
+        if (received.length > 0 && delta > paid) violations.push(`${address} gained ${delta}, it was sent ${paid}`)
+      }
+      if (delta < 0 && sent.length === 0) {
+        violations.push(`${address} lost ${-delta} without sending a transfer`)
+      }
+    }
+
+    const noOps = transfers.filter(({ transactionHash, from, to, value }) => {
+      if (failed.has(transactionHash)) return true
+      if (from.toLowerCase() === to.toLowerCase() || value === BigInt(0)) return false
+      return isTracked(from) && isTracked(to) && deltaOf(from) === BigInt(0) && deltaOf(to) === BigInt(0)
+    })
+    this.noOps.push(...noOps)
+
+    if (violations.length > 0) {
+      throw new BalanceInvariantError(blockNumber, violations)
+    }
+    return { blockNumber, transfers, deltas, noOps, unreplayed }
+  }
+
+  private supplyViolations({ totalSupply, balances }: State) {
+    const sum = [...balances.values()].reduce((total, balance) => total + balance, BigInt(0))
+    if (this.options.complete ?? true) {
+      return sum === totalSupply ? [] : [`tracked balances add up to ${sum}, totalSupply() is ${totalSupply}`]
+    }
+    return sum <= totalSupply ? [] : [`tracked balances add up to ${sum}, more than totalSupply() ${totalSupply}`]
+  }
+
+  private assertSupply(state: State) {
+    const violations = this.supplyViolations(state)
+    if (violations.length > 0) {
+      throw new BalanceInvariantError(state.blockNumber, violations)
+    }
+  }
+
+  private async read(blockNumber: number): Promise<State> {
+    const balances = new Map<string, bigint>()
+    for (const [address, account] of this.accounts) {
+      const ct = await this.token.connect(account.wallet).balanceOf({ blockTag: blockNumber })
+      balances.set(address, ct === BigInt(0) ? BigInt(0) : decryptUint(ct, account.userKey))
+    }
+
+    return { blockNumber, totalSupply: await this.token.totalSupply({ blockTag: blockNumber }), balances }
+  }
+
+  private async transfers(blockNumber: number): Promise<TransferLog[]> {
+    const topics = transferSignatures.map((signature) => this.token.interface.getEvent(signature).topicHash)
+    const logs = await this.token.runner!.provider!.getLogs({
+      address: await this.token.getAddress(),
+      topics: [topics],
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+    })
+
+    return logs.map((log) => {
+      const { args } = this.token.interface.parseLog(log)!
+      return {
+        transactionHash: log.transactionHash,
+        from: args[0],
+        to: args[1],
+        ...(args.length > 2 ? { value: BigInt(args[2]) } : {}),
+      }
+    })
+  }
+
+  // Hashes of the transfers of the block that revealed false. A call is replayed on the state of the previous block,
+  // which is its own only for the first transaction of the block: the later transfers sent with revealRes are
+  // returned as unreplayed instead.
+  private async revealedFailures(blockNumber: number) {
+    const provider = this.token.runner!.provider!
+    const address = (await this.token.getAddress()).toLowerCase()
+    const block = await provider.getBlock(blockNumber, true)
+
+    const failed = new Set<string>()
+    const unreplayed: string[] = []
+    for (const [i, tx] of (block?.prefetchedTransactions ?? []).entries()) {
+      if (tx.to?.toLowerCase() !== address) continue
+
+      const call = this.token.interface.parseTransaction(tx)
+      const revealed = (call?.name === "transfer" || call?.name === "transferFrom") && call.args[call.args.length - 1]
+      if (!call || revealed !== true) continue
+      if ((await provider.getTransactionReceipt(tx.hash))?.status !== 1) continue
+      if (i > 0) {
+        unreplayed.push(tx.hash)
+        continue
+      }
+
+      const data = await provider.call({ from: tx.from, to: tx.to, data: tx.data, blockTag: blockNumber - 1 })
+      const [success] = this.token.interface.decodeFunctionResult(call.signature as TokenFunction, data)
+      if (!success) failed.add(tx.hash)
+    }
+    return { failed, unreplayed }
+  }
+}
@@ -0,0 +1,69 @@
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { BaseContract, TransactionReceipt } from "ethers"
+import { decryptUint } from "./crypto"
+
+// Where a ciphertext read from a contract can be decrypted, seen from one account:
+// - empty: the slot was never written, contracts read it as an encrypted zero
+// - user: it was made with offBoardToUser for this account, value is what it holds
+// - network: the account cannot decrypt it. Either it is a network ciphertext, made with offBoard, which only the
+//   network reads back with onBoard, or a user ciphertext made for another account: the two look the same from here.
+export type CiphertextInspection = { domain: "empty" } | { domain: "user"; value: bigint } | { domain: "network" }
+
+// Both kinds of ciphertext are (pad ^ value) << 128 | r, the pad being drawn from r with the key of the user or of
+// the network. Decrypting with the wrong key gives a random 128 bits value, which fits in the width of the type one
+// time in 2^64 for a ctUint64: a value that fits is taken as decrypted.
+export function inspectCiphertext(ct: bigint, account: ConfidentialAccount, bits = 64): CiphertextInspection {
+  if (ct === BigInt(0)) return { domain: "empty" }
+
+  const value = decryptUint(ct, account.userKey)
+  return value >> BigInt(bits) === BigInt(0) ? { domain: "user", value } : { domain: "network" }
+}
+
+export function describeInspection(inspection: CiphertextInspection) {
+  if (inspection.domain === "user") return `a user ciphertext of ${inspection.value}`
+  return inspection.domain === "empty" ? "an empty ciphertext" : "a network ciphertext, or one for another account"
+}
+
+export type UserEncryptedValueLog = {
+  from: string
+  ciphertext: bigint
+  inspection: CiphertextInspection
+  // what is wrong with the log, empty when it carries the stored ciphertext for the account that sent it
+  problems: string[]
+}
+
+// The UserEncryptedValue logs of a transaction, such as the ones of DataOnChain.setUserSomeEncryptedValue, checked
+// against the ciphertext the transaction stored: the event has to carry that very ciphertext, made for the account
+// given as _from, which has to be the one that sent the transaction.
+export function checkUserEncryptedValueLogs(
+  contract: BaseContract,
+  receipt: TransactionReceipt,
+  stored: bigint,
+  account: ConfidentialAccount
+): UserEncryptedValueLog[] {
+  const event = contract.interface.getEvent("UserEncryptedValue")!
+
+  return receipt.logs
+    .filter((log) => log.topics[0] === event.topicHash)
+    .map((log) => {
+      const { args } = contract.interface.parseLog(log)!
+      const from: string = args[0]
+      const ciphertext = BigInt(args[1])
+      const inspection = inspectCiphertext(ciphertext, account)
+
+      const problems = []
+      if (from.toLowerCase() !== receipt.from.toLowerCase()) {
+        problems.push(`_from is ${from}, the transaction was sent by ${receipt.from}`)
+      }
+      if (from.toLowerCase() !== account.wallet.address.toLowerCase()) {
+        problems.push(`_from is ${from}, the ciphertext was expected for ${account.wallet.address}`)
+      }
+      if (ciphertext !== stored) {
+        problems.push(`the log carries ${ciphertext}, the contract stored ${stored}`)
+      }
+      if (inspection.domain !== "user") {
+        problems.push(`the log carries ${describeInspection(inspection)}, not one ${account.wallet.address} decrypts`)
+      }
+      return { from, ciphertext, inspection, problems }
+    })
+}
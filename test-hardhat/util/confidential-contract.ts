@@ -0,0 +1,207 @@
+import hre from "hardhat"
+import {
+  type BaseContract,
+  type ContractTransactionReceipt,
+  type JsonFragment,
+  type JsonFragmentType,
+  type LogDescription,
+  type Overrides,
+  FunctionFragment,
+  Result,
+} from "ethers"
+import { type ConfidentialAccount, decryptValue, prepareIT } from "@coti-io/coti-sdk-typescript"
+import type { TypedContractMethod } from "../../typechain-types/common"
+import type { CtBool, MpcValue } from "../../typechain-types/mpc"
+import { sendTransaction } from "./transactions"
+
+export type DecryptedValue = bigint | boolean
+export type ConfidentialReceipt = { receipt: ContractTransactionReceipt; events: LogDescription[] }
+
+// An input text (ItUint64 ciphertext and signature) is passed as the single plain value it encrypts
+type ConfidentialArgs<A extends unknown[]> = A extends [infer C, infer S, ...infer Rest]
+  ? [C, S] extends [MpcValue<bigint, `it${string}`>, MpcValue<Uint8Array, `it${string}`>]
+    ? [bigint | number | boolean, ...ConfidentialArgs<Rest>]
+    : [C, ...ConfidentialArgs<[S, ...Rest]>]
+  : A
+
+// Trailing flags such as revealRes default to false
+type OptionalTrailingBools<A extends unknown[]> = A extends [...infer Head, boolean]
+  ? [...OptionalTrailingBools<Head>, boolean?]
+  : A
+
+// ct outputs decrypt to a boolean for a ctBool and to a number for the others
+type Decrypted<V> = V extends CtBool
+  ? boolean
+  : V extends MpcValue<bigint, `ct${string}`>
+  ? bigint
+  : V extends bigint
+  ? DecryptedValue
+  : V
+type DecryptedOutput<R> = R extends [infer Only] ? Decrypted<Only> : { [I in keyof R]: Decrypted<R[I]> }
+
+type ClientMethod<M> = M extends TypedContractMethod<infer A, infer R, infer S>
+  ? {
+      (...args: OptionalTrailingBools<ConfidentialArgs<A>>): Promise<
+        S extends "view" ? DecryptedOutput<R> : ConfidentialReceipt
+      >
+      staticCall(...args: OptionalTrailingBools<ConfidentialArgs<A>>): Promise<DecryptedOutput<R>>
+    }
+  : never
+
+type UnionToIntersection<U> = (U extends unknown ? (u: U) => void : never) extends (i: infer I) => void ? I : never
+type MethodKeys<T> = {
+  [K in keyof T]: T[K] extends TypedContractMethod<infer _A, infer _R, infer _S> ? K : never
+}[keyof T] &
+  string
+type FunctionName<K> = K extends `${infer N}(${string}` ? N : K
+
+// Overloads are reachable both by signature and by bare name, e.g. client.transfer(to, 5n)
+export type ConfidentialClient<T> = {
+  [K in MethodKeys<T>]: ClientMethod<T[K]>
+} & {
+  [N in FunctionName<MethodKeys<T>>]: UnionToIntersection<ClientMethod<T[Extract<MethodKeys<T>, N | `${N}(${string}`>]>>
+}
+
+export type WithConfidential<T> = T & {
+  confidential(account: ConfidentialAccount, overrides?: Overrides): ConfidentialClient<T>
+}
+
+type AbiParams = readonly JsonFragmentType[]
+type ConfidentialFunction = { fragment: FunctionFragment; inputs: AbiParams; outputs: AbiParams }
+
+const ctType = /^ct(Bool|Uint\d+)$/
+
+// Adds contract.confidential(account), the ABI of `contractName` tells which params and outputs are encrypted
+export function withConfidential<T extends BaseContract>(contract: T, contractName: string) {
+  const functions = readConfidentialFunctions(contractName)
+
+  return Object.assign(contract, {
+    confidential: (account: ConfidentialAccount, overrides: Overrides = {}) =>
+      createClient(contract, functions, account, overrides) as ConfidentialClient<T>,
+  }) as WithConfidential<T>
+}
+
+function createClient(
+  contract: BaseContract,
+  functions: ConfidentialFunction[],
+  account: ConfidentialAccount,
+  overrides: Overrides
+) {
+  const connected = contract.connect(account.wallet)
+
+  const invoke = async (key: string, args: unknown[], forceStatic: boolean) => {
+    const func = resolveFunction(functions, key, args)
+    const method = connected.getFunction(func.fragment.format())
+    const callArgs = await encryptArgs(func, args, account, await contract.getAddress())
+
+    if (forceStatic || func.fragment.constant) {
+      return decryptOutputs(func, await method.staticCallResult(...callArgs, overrides), account)
+    }
+
+    const receipt = await sendTransaction(
+      method as TypedContractMethod<unknown[], unknown, "nonpayable">,
+      ...callArgs,
+      overrides
+    )
+    const events = receipt.logs
+      .map((log) => contract.interface.parseLog(log))
+      .filter((event): event is LogDescription => event !== null)
+
+    return { receipt, events }
+  }
+
+  return new Proxy({} as Record<string, unknown>, {
+    get(_, key) {
+      // not a thenable, so the client itself can be returned from async functions
+      if (typeof key !== "string" || key === "then") return undefined
+
+      return Object.assign((...args: unknown[]) => invoke(key, args, false), {
+        staticCall: (...args: unknown[]) => invoke(key, args, true),
+      })
+    },
+  })
+}
+
+function readConfidentialFunctions(contractName: string): ConfidentialFunction[] {
+  const abi: JsonFragment[] = hre.artifacts.readArtifactSync(contractName).abi
+  return abi
+    .filter((entry) => entry.type === "function")
+    .map((entry) => ({
+      fragment: FunctionFragment.from(entry),
+      inputs: entry.inputs ?? [],
+      outputs: entry.outputs ?? [],
+    }))
+}
+
+function isInputText(inputs: AbiParams, i: number) {
+  return ctType.test(inputs[i].internalType ?? "") && inputs[i + 1]?.type === "bytes"
+}
+
+// Params as the caller sees them: an input text counts once, trailing bools are optional
+function plainArity(func: ConfidentialFunction) {
+  const inputTexts = func.inputs.filter((_, i) => isInputText(func.inputs, i)).length
+  const max = func.inputs.length - inputTexts
+  let min = max
+  while (min > 0 && func.inputs[func.inputs.length - (max - min) - 1].type === "bool") min--
+
+  return { min, max, inputTexts }
+}
+
+function resolveFunction(functions: ConfidentialFunction[], key: string, args: unknown[]) {
+  const candidates = functions
+    .filter((func) => (key.includes("(") ? func.fragment.format() === key : func.fragment.name === key))
+    .map((func) => ({ func, ...plainArity(func) }))
+    .filter(({ min, max }) => min <= args.length && args.length <= max)
+    // the encrypted overload wins, otherwise transfer(to, 5n) would be ambiguous with the clear one
+    .sort((a, b) => b.inputTexts - a.inputTexts || b.max - a.max)
+
+  if (candidates.length === 0) {
+    throw new Error(`No function ${key} taking ${args.length} arguments`)
+  }
+
+  return candidates[0].func
+}
+
+async function encryptArgs(
+  func: ConfidentialFunction,
+  args: unknown[],
+  account: ConfidentialAccount,
+  contractAddress: string
+) {
+  const callArgs: unknown[] = []
+  let next = 0
+  for (let i = 0; i < func.inputs.length; i++) {
+    if (next >= args.length) {
+      callArgs.push(false)
+    } else if (isInputText(func.inputs, i)) {
+      const value = args[next++] as bigint | number | boolean
+      const { ctInt, signature } = await prepareIT(
+        typeof value === "boolean" ? BigInt(value ? 1 : 0) : BigInt(value),
+        account,
+        contractAddress,
+        func.fragment.selector
+      )
+      callArgs.push(ctInt, signature)
+      i++
+    } else {
+      callArgs.push(args[next++])
+    }
+  }
+
+  return callArgs
+}
+
+function decryptOutputs(func: ConfidentialFunction, result: Result, account: ConfidentialAccount) {
+  const values = func.outputs.map((output, i) => {
+    const internalType = output.internalType ?? ""
+    if (!ctType.test(internalType)) {
+      return result[i]
+    }
+
+    // a value that was never written has no ciphertext yet
+    const value = result[i] === BigInt(0) ? 0 : decryptValue(result[i], account.userKey)
+    return internalType === "ctBool" ? value !== 0 : BigInt(value)
+  })
+
+  return values.length === 1 ? values[0] : values
+}
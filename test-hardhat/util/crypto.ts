@@ -0,0 +1,14 @@
+import crypto from "crypto"
+
+const mask128 = (BigInt(1) << BigInt(128)) - BigInt(1)
+
+// Exact counterpart of the sdk decryptValue, which returns a number and so loses the low bits of 64 bits values.
+// A user ciphertext is (AES-128(userKey, r) xor value) << 128 | r
+export function decryptUint(ct: bigint, userKey: string) {
+  const r = Buffer.from((ct & mask128).toString(16).padStart(32, "0"), "hex")
+  const cipher = crypto.createCipheriv("aes-128-ecb", Buffer.from(userKey, "hex"), null)
+  cipher.setAutoPadding(false)
+  const pad = BigInt(`0x${cipher.update(r).toString("hex")}`)
+
+  return (ct >> BigInt(128)) ^ pad
+}
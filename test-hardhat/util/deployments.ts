@@ -0,0 +1,102 @@
+import fs from "fs"
+import path from "path"
+import hre from "hardhat"
+import {
+  type DeploymentParameters,
+  type EIP1193Provider,
+  type IgnitionModule,
+  type IgnitionModuleResult,
+  DeploymentResultType,
+  deploy,
+} from "@nomicfoundation/ignition-core"
+import {
+  HardhatArtifactResolver,
+  errorDeploymentResultToExceptionMessage,
+} from "@nomicfoundation/hardhat-ignition/helpers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { isEmulatedNetwork } from "./mpc-emulator"
+
+export type DeployModuleOptions = {
+  parameters?: DeploymentParameters
+  // deploy new contracts without recording them, for suites that need a pristine state
+  fresh?: boolean
+}
+
+// Deploys an Ignition module from ignition/modules with the keystore accounts, the first one being the deployer
+// and m.getAccount(i) the i-th one. Outside of the in-process network the deployment is recorded in
+// ignition/deployments/chain-<chainId>, so the next run reuses the same contracts (set REDEPLOY=true to skip them).
+export async function deployModule<ContractNameT extends string, ResultsT extends IgnitionModuleResult<ContractNameT>>(
+  ignitionModule: IgnitionModule<string, ContractNameT, ResultsT>,
+  accounts: ConfidentialAccount[],
+  { parameters = {}, fresh = process.env.REDEPLOY === "true" }: DeployModuleOptions = {}
+) {
+  const chainId = Number(await hre.network.provider.request({ method: "eth_chainId" }))
+  const deploymentDir =
+    isEmulatedNetwork() || fresh ? undefined : path.join(hre.config.paths.ignition, "deployments", `chain-${chainId}`)
+
+  const futureIds = Object.values(ignitionModule.results).map((future) => future.id)
+  const recorded = deploymentDir ? readDeployedAddresses(deploymentDir) : {}
+  const reused = futureIds.every((id) => id in recorded)
+
+  const result = await deploy({
+    config: { requiredConfirmations: 1 },
+    artifactResolver: new HardhatArtifactResolver(hre),
+    provider: signingProvider(accounts),
+    deploymentDir,
+    ignitionModule,
+    deploymentParameters: parameters,
+    accounts: accounts.map((account) => account.wallet.address),
+    defaultSender: accounts[0].wallet.address,
+  })
+  if (result.type !== DeploymentResultType.SUCCESSFUL_DEPLOYMENT) {
+    throw new Error(errorDeploymentResultToExceptionMessage(result))
+  }
+
+  const addresses = Object.fromEntries(
+    Object.entries(ignitionModule.results).map(([name, future]) => [name, result.contracts[future.id].address])
+  ) as Record<keyof ResultsT, string>
+
+  return { addresses, reused }
+}
+
+function readDeployedAddresses(deploymentDir: string): Record<string, string> {
+  const file = path.join(deploymentDir, "deployed_addresses.json")
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {}
+}
+
+// The single transaction Ignition sends with eth_sendTransaction, quantities are hex strings
+type IgnitionTransaction = {
+  from: string
+  to?: string
+  data: string
+  value: string
+  nonce: string
+  gas: string
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+}
+
+// Keystore accounts are not known to the network provider, so Ignition transactions are signed here
+function signingProvider(accounts: ConfidentialAccount[]): EIP1193Provider {
+  return {
+    async request({ method, params }) {
+      if (method === "eth_accounts") {
+        return accounts.map((account) => account.wallet.address)
+      }
+
+      if (method === "eth_sendTransaction") {
+        const [{ from, gas, nonce, ...tx }] = params as [IgnitionTransaction]
+        const account = accounts.find((account) => account.wallet.address.toLowerCase() === from.toLowerCase())
+        if (!account) {
+          throw new Error(`Ignition tried to send from ${from}, which is not one of the deployment accounts`)
+        }
+
+        const response = await account.wallet.sendTransaction({ ...tx, gasLimit: gas, nonce: Number(nonce) })
+        return response.hash
+      }
+
+      return hre.network.provider.request({ method, params })
+    },
+  }
+}
@@ -0,0 +1,209 @@
+import fs from "fs"
+import path from "path"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ConfidentialERC20 } from "../../typechain-types"
+import { decryptUint } from "./crypto"
+
+// One Transfer or Approval log, from either overload. For an Approval, from is the owner and to the spender.
+// value is only set by the clear overloads, the encrypted ones do not put the amount in the log.
+export type TokenEvent = {
+  name: "Transfer" | "Approval"
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+  from: string
+  to: string
+  value?: string
+}
+
+export type HistoryEntry = TokenEvent & {
+  direction: "in" | "out" | "self"
+  // decrypted balance of the account after the block of the event
+  balance: bigint
+  // how much the balance moved in that block, unset when the account has several events in the same block
+  amount?: bigint
+  // decrypted allowance after an Approval, only its owner can decrypt it
+  allowance?: bigint
+}
+
+type IndexedToken = { lastBlock: number; events: TokenEvent[] }
+type IndexDocument = { version: 1; tokens: Record<string, IndexedToken> }
+
+// Events of every indexed token, keyed by chain id and token address, so one file can serve several networks
+export class TokenEventStore {
+  constructor(readonly filePath: string) {}
+
+  load(chainId: bigint, token: string): IndexedToken {
+    return this.read().tokens[storeKey(chainId, token)] ?? { lastBlock: -1, events: [] }
+  }
+
+  append(chainId: bigint, token: string, lastBlock: number, events: TokenEvent[]) {
+    const doc = this.read()
+    const indexed = doc.tokens[storeKey(chainId, token)] ?? { lastBlock: -1, events: [] }
+    doc.tokens[storeKey(chainId, token)] = { lastBlock, events: [...indexed.events, ...events] }
+    this.write(doc)
+  }
+
+  private read(): IndexDocument {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: 1, tokens: {} }
+    }
+
+    return JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+  }
+
+  // Same temporary file and rename as the keystore, so an interrupted run never truncates the index
+  private write(doc: IndexDocument) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(doc, null, 2))
+    fs.renameSync(tmpPath, this.filePath)
+  }
+}
+
+const storeKey = (chainId: bigint, token: string) => `${chainId}:${token.toLowerCase()}`
+
+// INDEXER_PATH overrides the default ./.indexer.json
+export function openTokenEventStore(filePath = process.env.INDEXER_PATH ?? "./.indexer.json") {
+  return new TokenEventStore(filePath)
+}
+
+export type IndexOptions = {
+  // first block to index when the store has nothing for the token yet, e.g. the deployment block
+  fromBlock?: number
+  // eth_getLogs block range per request, nodes usually cap it
+  batchSize?: number
+}
+
+const eventSignatures = [
+  "Transfer(address,address,uint256)",
+  "Transfer(address,address)",
+  "Approval(address,address,uint256)",
+  "Approval(address,address)",
+] as const
+
+// Fetches the Transfer and Approval logs of both overloads from the block after the last indexed one up to the
+// latest block and appends them to the store. Returns every event indexed for the token and the new ones.
+export async function indexTokenEvents(
+  token: ConfidentialERC20,
+  store: TokenEventStore,
+  { fromBlock = 0, batchSize = 2000 }: IndexOptions = {}
+) {
+  const provider = token.runner!.provider!
+  const [address, { chainId }, latest] = await Promise.all([
+    token.getAddress(),
+    provider.getNetwork(),
+    provider.getBlockNumber(),
+  ])
+
+  const indexed = store.load(chainId, address)
+  const topics = eventSignatures.map((signature) => token.interface.getEvent(signature).topicHash)
+
+  let added: TokenEvent[] = []
+  for (let start = Math.max(indexed.lastBlock + 1, fromBlock); start <= latest; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, latest)
+    const logs = await provider.getLogs({ address, topics: [topics], fromBlock: start, toBlock: end })
+    added = added.concat(
+      logs.map((log) => {
+        const { name, args } = token.interface.parseLog(log)!
+        return {
+          name: name as TokenEvent["name"],
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+          from: args[0],
+          to: args[1],
+          ...(args.length > 2 ? { value: args[2].toString() } : {}),
+        }
+      })
+    )
+  }
+
+  store.append(chainId, address, latest, added)
+  return { events: [...indexed.events, ...added], added }
+}
+
+export type FollowOptions = IndexOptions & {
+  pollInterval?: number
+  // gets the error of a failed poll, polling goes on and the next one indexes the blocks it missed
+  onError?: (error: unknown) => void
+}
+
+// Indexes new blocks every pollInterval ms until stop() is called, onEvents gets the events of each new batch
+export function followTokenEvents(
+  token: ConfidentialERC20,
+  store: TokenEventStore,
+  onEvents: (events: TokenEvent[]) => void | Promise<void>,
+  {
+    pollInterval = 5000,
+    onError = (error) => console.error("Indexing the token events failed:", error),
+    ...options
+  }: FollowOptions = {}
+) {
+  let stopped = false
+  let timer: NodeJS.Timeout | undefined
+
+  const poll = async () => {
+    try {
+      const { added } = await indexTokenEvents(token, store, options)
+      if (added.length > 0) {
+        await onEvents(added)
+      }
+    } catch (error) {
+      onError(error)
+    }
+    if (!stopped) timer = setTimeout(poll, pollInterval)
+  }
+  const running = poll()
+
+  return {
+    running,
+    stop() {
+      stopped = true
+      clearTimeout(timer)
+    },
+  }
+}
+
+// The logs of the encrypted overloads hold no amount, so the history of an account is rebuilt from what it can
+// decrypt: its own balance before and after each block, read with eth_call at that block (the node has to keep the
+// state of past blocks), and the allowances it gave. Events that do not involve the account are left out.
+export async function accountHistory(token: ConfidentialERC20, events: TokenEvent[], account: ConfidentialAccount) {
+  const address = account.wallet.address.toLowerCase()
+  const reader = token.connect(account.wallet)
+  const decrypt = (ct: bigint) => (ct === BigInt(0) ? BigInt(0) : decryptUint(ct, account.userKey))
+
+  const balances = new Map<number, Promise<bigint>>()
+  const balanceAt = (blockTag: number) => {
+    if (!balances.has(blockTag)) {
+      balances.set(blockTag, blockTag < 0 ? Promise.resolve(BigInt(0)) : reader.balanceOf({ blockTag }).then(decrypt))
+    }
+    return balances.get(blockTag)!
+  }
+
+  const involved = events.filter(({ from, to }) => from.toLowerCase() === address || to.toLowerCase() === address)
+  const perBlock = involved.reduce(
+    (counts, { blockNumber }) => counts.set(blockNumber, (counts.get(blockNumber) ?? 0) + 1),
+    new Map<number, number>()
+  )
+
+  const history: HistoryEntry[] = []
+  for (const event of involved) {
+    const isFrom = event.from.toLowerCase() === address
+    const isTo = event.to.toLowerCase() === address
+    const balance = await balanceAt(event.blockNumber)
+
+    const entry: HistoryEntry = { ...event, direction: isFrom && isTo ? "self" : isFrom ? "out" : "in", balance }
+    if (event.name === "Transfer" && perBlock.get(event.blockNumber) === 1) {
+      const delta = balance - (await balanceAt(event.blockNumber - 1))
+      entry.amount = delta < 0 ? -delta : delta
+    }
+    if (event.name === "Approval" && isFrom) {
+      entry.allowance = decrypt(await reader.allowance(event.from, event.to, { blockTag: event.blockNumber }))
+    }
+
+    history.push(entry)
+  }
+
+  return history
+}
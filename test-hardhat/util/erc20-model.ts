@@ -0,0 +1,202 @@
+import fc from "fast-check"
+import type { Overrides } from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ERC20Example } from "../../typechain-types"
+import type { WithConfidential } from "./confidential-contract"
+import { decryptUint } from "./crypto"
+import { sendTransaction } from "./transactions"
+
+// Accounts are indices into the accounts the sequence runs with. encrypted picks the overload taking an input text.
+export type TokenAction =
+  | { kind: "transfer"; from: number; to: number; amount: bigint; encrypted: boolean }
+  | { kind: "approve"; owner: number; spender: number; amount: bigint; encrypted: boolean }
+  | { kind: "transferFrom"; sender: number; from: number; to: number; amount: bigint; encrypted: boolean }
+
+export type TokenState = {
+  balances: bigint[]
+  // allowances[owner][spender]
+  allowances: bigint[][]
+}
+
+// The actions ConfidentialERC20 is known to get wrong, see knownDeviation
+export type KnownDeviation = "self-transfer" | "delegated-transferFrom"
+
+// Plain model of the ERC20 semantics ConfidentialERC20 means to implement: a transfer the balance or the allowance
+// cannot cover succeeds as a no-op, transferFrom spends the allowance the owner gave to its sender and a transfer to
+// oneself leaves the balance as it is
+export class ERC20Model {
+  readonly balances: bigint[]
+  readonly allowances: bigint[][]
+
+  constructor(initialBalances: bigint[]) {
+    this.balances = [...initialBalances]
+    this.allowances = initialBalances.map(() => initialBalances.map(() => BigInt(0)))
+  }
+
+  // Returns the success flag the contract reveals
+  apply(action: TokenAction) {
+    switch (action.kind) {
+      case "transfer":
+        return this.move(action.from, action.to, action.amount)
+      case "approve":
+        this.allowances[action.owner][action.spender] = action.amount
+        return true
+      case "transferFrom": {
+        const { sender, from, to, amount } = action
+        if (amount > this.allowances[from][sender] || amount > this.balances[from]) return false
+
+        this.allowances[from][sender] -= amount
+        return this.move(from, to, amount)
+      }
+    }
+  }
+
+  state(): TokenState {
+    return { balances: [...this.balances], allowances: this.allowances.map((row) => [...row]) }
+  }
+
+  private move(from: number, to: number, amount: bigint) {
+    if (amount > this.balances[from]) return false
+
+    this.balances[from] -= amount
+    this.balances[to] += amount
+    return true
+  }
+}
+
+// Where ConfidentialERC20 departs from the model:
+// - self-transfer: the two balances are written sender first, so a transfer to oneself credits the amount without
+//   debiting it
+// - delegated-transferFrom: transferFrom spends the allowance the owner gave to the recipient, whoever sends it
+export function knownDeviation(action: TokenAction): KnownDeviation | undefined {
+  if (action.kind === "approve") return undefined
+  if (action.from === action.to) return "self-transfer"
+  if (action.kind === "transferFrom" && action.sender !== action.to) return "delegated-transferFrom"
+  return undefined
+}
+
+export type TokenActionsOptions = {
+  maxAmount?: bigint
+  maxLength?: number
+}
+
+function tokenAction(accountCount: number, maxAmount: bigint): fc.Arbitrary<TokenAction> {
+  const account = fc.nat({ max: accountCount - 1 })
+  const amount = fc.bigInt({ min: BigInt(0), max: maxAmount })
+
+  return fc.oneof(
+    fc.record({ kind: fc.constant("transfer" as const), from: account, to: account, amount, encrypted: fc.boolean() }),
+    fc.record({
+      kind: fc.constant("approve" as const),
+      owner: account,
+      spender: account,
+      amount,
+      encrypted: fc.boolean(),
+    }),
+    fc.record({
+      kind: fc.constant("transferFrom" as const),
+      sender: account,
+      from: account,
+      to: account,
+      amount,
+      encrypted: fc.boolean(),
+    })
+  )
+}
+
+// Sequences of the actions the contract gets right. Amounts are kept close to the balances so that sequences mix
+// transfers that go through with ones that do not.
+export function tokenActions(
+  accountCount: number,
+  { maxAmount = BigInt(20), maxLength = 8 }: TokenActionsOptions = {}
+) {
+  const action = tokenAction(accountCount, maxAmount).filter((action) => knownDeviation(action) === undefined)
+  return fc.array(action, { minLength: 1, maxLength })
+}
+
+// A sequence of tokenActions ending with an action of a known deviation. A transferFrom comes after the approval of
+// its sender, so that it goes through in the model.
+export function deviatingActions(accountCount: number, deviation: KnownDeviation, options: TokenActionsOptions = {}) {
+  const last = tokenAction(accountCount, options.maxAmount ?? BigInt(20))
+    .filter((action) => knownDeviation(action) === deviation)
+    .map((action): TokenAction[] =>
+      action.kind === "transferFrom"
+        ? [
+            { kind: "approve", owner: action.from, spender: action.sender, amount: action.amount, encrypted: false },
+            action,
+          ]
+        : [action]
+    )
+
+  return fc.tuple(tokenActions(accountCount, options), last).map(([actions, deviating]) => [...actions, ...deviating])
+}
+
+export function initialBalances(accountCount: number, { maxAmount = BigInt(20) }: TokenActionsOptions = {}) {
+  return fc.array(fc.bigInt({ min: BigInt(0), max: maxAmount * BigInt(2) }), {
+    minLength: accountCount,
+    maxLength: accountCount,
+  })
+}
+
+// Sends one action with the account it names, the encrypted overloads go through the confidential client
+export async function sendAction(
+  token: WithConfidential<ERC20Example>,
+  accounts: ConfidentialAccount[],
+  action: TokenAction,
+  overrides: Overrides = {}
+) {
+  const address = (i: number) => accounts[i].wallet.address
+
+  switch (action.kind) {
+    case "transfer": {
+      const { from, to, amount, encrypted } = action
+      if (encrypted) {
+        await token.confidential(accounts[from], overrides).transfer(address(to), amount)
+        return
+      }
+      const transfer = token.connect(accounts[from].wallet)["transfer(address,uint64,bool)"]
+      await sendTransaction(transfer, address(to), amount, false, overrides)
+      return
+    }
+    case "approve": {
+      const { owner, spender, amount, encrypted } = action
+      if (encrypted) {
+        await token.confidential(accounts[owner], overrides).approve(address(spender), amount)
+        return
+      }
+      await sendTransaction(token.connect(accounts[owner].wallet).approveClear, address(spender), amount, overrides)
+      return
+    }
+    case "transferFrom": {
+      const { sender, from, to, amount, encrypted } = action
+      if (encrypted) {
+        await token.confidential(accounts[sender], overrides).transferFrom(address(from), address(to), amount)
+        return
+      }
+      const transferFrom = token.connect(accounts[sender].wallet)["transferFrom(address,address,uint64,bool)"]
+      await sendTransaction(transferFrom, address(from), address(to), amount, false, overrides)
+      return
+    }
+  }
+}
+
+// Balances and allowances as their owners decrypt them
+export async function readTokenState(token: ERC20Example, accounts: ConfidentialAccount[]): Promise<TokenState> {
+  const decrypt = (ct: bigint, account: ConfidentialAccount) =>
+    ct === BigInt(0) ? BigInt(0) : decryptUint(ct, account.userKey)
+
+  const balances = []
+  const allowances = []
+  for (const owner of accounts) {
+    const reader = token.connect(owner.wallet)
+    balances.push(decrypt(await reader.balanceOf(), owner))
+
+    const row = []
+    for (const spender of accounts) {
+      row.push(decrypt(await reader.allowance(owner.wallet.address, spender.wallet.address), owner))
+    }
+    allowances.push(row)
+  }
+
+  return { balances, allowances }
+}
@@ -0,0 +1,51 @@
+import hre from "hardhat"
+import { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { isEmulatedNetwork } from "./mpc-emulator"
+
+// Gives every test of the describe block it is called in the state the fixture leaves, whatever the tests before it
+// did, so that a test also passes alone with .only:
+//
+//   const fixture = useFixture(deploy)
+//   it("...", async function () {
+//     const { contract, owner } = fixture()
+//   })
+//
+// On the in-process network the fixture runs once, and the chain is reverted to the snapshot taken after it before
+// every test. Devnet has no snapshots: a test gets a fresh deployment instead, which the fixture has to make with
+// deployModule(..., { fresh: true }) unless its tests do not depend on the state the others leave. A deployment is
+// handed to the next test as long as none of the accounts it returns sent a transaction, so the tests that only read
+// share one.
+export function useFixture<T extends object>(fixture: () => Promise<T>): () => T {
+  let value: T | undefined
+  let snapshot: string | undefined
+  let nonces: string | undefined
+
+  beforeEach(async function () {
+    if (isEmulatedNetwork()) {
+      if (snapshot) {
+        // a snapshot is gone once reverted to, so a new one is taken every time
+        if (!(await hre.network.provider.send("evm_revert", [snapshot]))) throw new Error(`No snapshot ${snapshot}`)
+      } else {
+        value = await fixture()
+      }
+      snapshot = await hre.network.provider.send("evm_snapshot")
+      return
+    }
+
+    if (value && (await noncesOf(value)) === nonces) return
+    value = await fixture()
+    nonces = await noncesOf(value)
+  })
+
+  return () => {
+    if (!value) throw new Error("The fixture is only set inside the tests of the block that uses it")
+    return value
+  }
+}
+
+// Nonces of the accounts among the values of the fixture, the ones that can have changed its state
+async function noncesOf(value: object) {
+  const accounts = Object.values(value).filter((entry) => entry instanceof ConfidentialAccount)
+  const nonces = await Promise.all(accounts.map((account: ConfidentialAccount) => account.wallet.getNonce("latest")))
+  return nonces.join(",")
+}
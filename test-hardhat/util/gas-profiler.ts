@@ -0,0 +1,368 @@
+import fs from "fs"
+import path from "path"
+import { type InterfaceAbi, Interface, hexlify, keccak256 } from "ethers"
+import type { Artifacts, EthereumProvider, RequestArguments } from "hardhat/types"
+
+// The profiler is loaded from hardhat.config.ts, so it takes the provider and artifacts instead of importing hardhat
+export const MPC_PRECOMPILE = "0x0000000000000000000000000000000000000064"
+// Recorded on the in-process network, where the gas of a confidential function is mostly the AES of the emulator
+export const GAS_BASELINE_PATH = path.join("test-hardhat", "gas-baseline.json")
+
+export type TransactionProfile = {
+  hash: string
+  // Contract.function(types), Contract.constructor for a deployment
+  function: string
+  gasUsed: bigint
+  // mined with status 0, summarized apart from the successful calls of the function
+  reverted: boolean
+  // ExtendedOperations method => calls made by the transaction, unset when the node cannot trace it
+  mpcOps?: Record<string, number>
+}
+
+export type FunctionProfile = {
+  calls: number
+  gas: { min: number; avg: number; max: number }
+  // average calls per transaction of every ExtendedOperations method
+  mpcOps?: Record<string, number>
+}
+
+export type GasProfile = { network: string; functions: Record<string, FunctionProfile> }
+
+export type GasRegression = { function: string; metric: string; baseline: number; current: number }
+
+type ContractArtifact = { contractName: string; abi: Interface; codeLength: number }
+type RawMessage = { depth: number; to?: Uint8Array; data: Uint8Array }
+type RawTraceCallbacks = { onBeforeMessage?: (message: RawMessage) => Promise<void> }
+// One of the providers hardhat wraps around each other, the node being the innermost
+type WrappedProvider = {
+  _wrapped?: WrappedProvider
+  provider?: WrappedProvider
+  _rawTraceCallbacks?: RawTraceCallbacks
+  request(args: RequestArguments): Promise<unknown>
+}
+// The fields read from eth_getTransactionByHash and eth_getTransactionReceipt
+type RpcTransaction = { to: string | null; input: string }
+type RpcReceipt = { gasUsed: string; contractAddress: string | null; status: string }
+
+// Records every transaction sent through the provider between start() and stop(). On the in-process network the
+// calls to the MPC precompile address (the emulator) are counted from the EVM messages of the transaction as it is
+// mined, which makes the node build the trace of every step: expect the run to be several times slower. Elsewhere
+// they come from debug_traceTransaction with the callTracer once it is mined. Transactions are expected to be sent
+// one at a time, as the suites do: a call answered while a transaction is being sent would be counted with it.
+export class GasProfiler {
+  private readonly sent: { hash: string; mpcCalls?: string[] }[] = []
+  private readonly profiles: TransactionProfile[] = []
+  private contracts?: Promise<Map<string, ContractArtifact & { codeHash: string }>>
+  private restore?: () => void
+
+  constructor(
+    private readonly provider: EthereumProvider,
+    private readonly artifacts: Artifacts,
+    // the in-process network, whose node has to expose its raw trace callbacks
+    private readonly inProcess = false
+  ) {}
+
+  async start() {
+    // the provider is created lazily, its EVM can only be reached once it answered a request
+    await this.provider.request({ method: "eth_chainId" })
+    const node = innermostProvider(this.provider)
+    const request = node.request
+    const callbacks = node._rawTraceCallbacks
+    if (this.inProcess && !callbacks) {
+      // a hardhat release that renamed the fields innermostProvider walks, the MPC operations would not be traced
+      throw new Error("The in-process network exposes no _rawTraceCallbacks, the gas profiler cannot trace it")
+    }
+    const onBeforeMessage = callbacks?.onBeforeMessage
+
+    let messages: RawMessage[] | undefined
+    if (callbacks) {
+      callbacks.onBeforeMessage = async (message) => {
+        messages?.push(message)
+        await onBeforeMessage?.(message)
+      }
+    }
+
+    node.request = async (args: RequestArguments) => {
+      // the transactions mined since the snapshot are gone once reverted, they are profiled while the node has them
+      if (args.method === "evm_revert") await this.profileSent()
+      if (args.method !== "eth_sendRawTransaction" && args.method !== "eth_sendTransaction") {
+        return request.call(node, args)
+      }
+
+      messages = callbacks ? [] : undefined
+      try {
+        const hash = (await request.call(node, args)) as string
+        const mpcCalls = messages
+          ?.filter(({ depth, to }) => depth > 0 && to !== undefined && hexlify(to) === MPC_PRECOMPILE)
+          .map(({ data }) => Buffer.from(data.subarray(0, 4)).toString("hex"))
+        this.sent.push({ hash, mpcCalls })
+        return hash
+      } finally {
+        messages = undefined
+      }
+    }
+
+    this.restore = () => {
+      node.request = request
+      if (callbacks) callbacks.onBeforeMessage = onBeforeMessage
+    }
+  }
+
+  // Stops recording and returns the profile of every transaction mined since start()
+  async stop() {
+    this.restore?.()
+    await this.profileSent()
+    return this.profiles
+  }
+
+  private async profileSent() {
+    const sent = this.sent.splice(0)
+    if (sent.length === 0) return
+
+    this.contracts ??= this.readArtifacts()
+    const contracts = await this.contracts
+    const mpcOperations = new Interface((await this.artifacts.readArtifact("ExtendedOperations")).abi as InterfaceAbi)
+    const opName = (selector: string) => mpcOperations.getFunction(`0x${selector}`)?.name ?? `0x${selector}`
+
+    const names = new Map<string, string>()
+    for (const { hash, mpcCalls } of sent) {
+      const tx = (await this.provider.request({
+        method: "eth_getTransactionByHash",
+        params: [hash],
+      })) as RpcTransaction | null
+      const receipt = (await this.provider.request({
+        method: "eth_getTransactionReceipt",
+        params: [hash],
+      })) as RpcReceipt | null
+      const address = tx?.to ?? receipt?.contractAddress
+      if (!tx || !receipt || !address) continue
+
+      if (!names.has(address)) names.set(address, await this.contractName(contracts, address, tx.input))
+      const contract = contracts.get(names.get(address)!)
+      const functionName = tx.to
+        ? contract?.abi.getFunction(tx.input.slice(0, 10))?.format("sighash") ?? tx.input.slice(0, 10)
+        : "constructor"
+
+      const calls = mpcCalls ?? (await this.traceMpcCalls(hash))
+      this.profiles.push({
+        hash,
+        function: `${names.get(address)}.${functionName}`,
+        gasUsed: BigInt(receipt.gasUsed),
+        reverted: BigInt(receipt.status) === BigInt(0),
+        ...(calls !== undefined ? { mpcOps: countOps(calls.map(opName)) } : {}),
+      })
+    }
+  }
+
+  // Geth-style nodes only, the in-process network supports the default tracer alone
+  private async traceMpcCalls(hash: string) {
+    type CallFrame = { to?: string; input: string; calls?: CallFrame[] }
+    const selectors = (frame: CallFrame): string[] => [
+      ...(frame.to?.toLowerCase() === MPC_PRECOMPILE ? [frame.input.slice(2, 10)] : []),
+      ...(frame.calls ?? []).flatMap(selectors),
+    ]
+
+    try {
+      const trace = (await this.provider.request({
+        method: "debug_traceTransaction",
+        params: [hash, { tracer: "callTracer" }],
+      })) as CallFrame
+      return selectors(trace)
+    } catch {
+      return undefined
+    }
+  }
+
+  private async readArtifacts() {
+    const contracts = new Map<string, ContractArtifact & { codeHash: string }>()
+    for (const name of await this.artifacts.getAllFullyQualifiedNames()) {
+      const { contractName, abi, deployedBytecode } = await this.artifacts.readArtifact(name)
+      if (deployedBytecode === "0x") continue
+
+      contracts.set(contractName, {
+        contractName,
+        abi: new Interface(abi as InterfaceAbi),
+        codeLength: deployedBytecode.length,
+        codeHash: keccak256(deployedBytecode),
+      })
+    }
+    return contracts
+  }
+
+  // The deployed code gives the contract, or when immutables change it, a contract of the same code length that has
+  // the function called
+  private async contractName(
+    contracts: Map<string, ContractArtifact & { codeHash: string }>,
+    address: string,
+    input: string
+  ) {
+    const code = (await this.provider.request({ method: "eth_getCode", params: [address, "latest"] })) as string
+    const candidates = [...contracts.values()]
+    const match =
+      candidates.find(({ codeHash }) => codeHash === keccak256(code)) ??
+      candidates.find(({ abi, codeLength }) => codeLength === code.length && abi.getFunction(input.slice(0, 10)))
+
+    return match?.contractName ?? address
+  }
+}
+
+// ethers sends through the legacy send() of the outer adapters, so requests are caught at the innermost provider.
+// On the in-process network it calls its raw trace callbacks while it answers the request that mined the transaction.
+function innermostProvider(provider: EthereumProvider) {
+  let wrapped = provider as unknown as WrappedProvider
+  for (let inner = wrapped._wrapped ?? wrapped.provider; inner; inner = wrapped._wrapped ?? wrapped.provider) {
+    wrapped = inner
+  }
+  return wrapped
+}
+
+function countOps(names: string[]) {
+  return names.reduce<Record<string, number>>((counts, name) => ({ ...counts, [name]: (counts[name] ?? 0) + 1 }), {})
+}
+
+// One entry per function, its reverted calls under "<function> reverted": they stop early, so adding one to the
+// successful calls would move the average by far more than any regression
+export function summarizeGasProfile(network: string, profiles: TransactionProfile[]): GasProfile {
+  const byFunction = new Map<string, TransactionProfile[]>()
+  for (const profile of profiles) {
+    const name = profile.reverted ? `${profile.function} reverted` : profile.function
+    byFunction.set(name, [...(byFunction.get(name) ?? []), profile])
+  }
+
+  const functions: Record<string, FunctionProfile> = {}
+  for (const [name, calls] of [...byFunction].sort(([a], [b]) => a.localeCompare(b))) {
+    const gas = calls.map(({ gasUsed }) => Number(gasUsed))
+    const traced = calls.filter(({ mpcOps }) => mpcOps !== undefined)
+
+    let mpcOps: Record<string, number> | undefined
+    if (traced.length === calls.length) {
+      mpcOps = {}
+      for (const op of new Set(traced.flatMap(({ mpcOps }) => Object.keys(mpcOps!))).values()) {
+        mpcOps[op] = round(traced.reduce((sum, call) => sum + (call.mpcOps![op] ?? 0), 0) / traced.length)
+      }
+    }
+
+    functions[name] = {
+      calls: calls.length,
+      gas: { min: Math.min(...gas), avg: Math.round(average(gas)), max: Math.max(...gas) },
+      ...(mpcOps ? { mpcOps: sortKeys(mpcOps) } : {}),
+    }
+  }
+  return { network, functions }
+}
+
+// A function is flagged when its average gas or the average count of one of its MPC operations grew by more than
+// tolerance (a fraction) over the baseline. Functions missing from either profile are not compared, nor are
+// profiles of different networks, since the emulator costs nothing like the precompile.
+export function compareGasProfile(current: GasProfile, baseline: GasProfile, tolerance: number) {
+  const regressions: GasRegression[] = []
+  if (current.network !== baseline.network) return regressions
+
+  const exceeds = (value: number, reference: number) => value > reference * (1 + tolerance)
+  for (const [name, profile] of Object.entries(current.functions)) {
+    const reference = baseline.functions[name]
+    if (!reference) continue
+
+    if (exceeds(profile.gas.avg, reference.gas.avg)) {
+      regressions.push({ function: name, metric: "gas", baseline: reference.gas.avg, current: profile.gas.avg })
+    }
+    if (!profile.mpcOps || !reference.mpcOps) continue
+    for (const [op, count] of Object.entries(profile.mpcOps)) {
+      const referenceCount = reference.mpcOps[op] ?? 0
+      if (exceeds(count, referenceCount)) {
+        regressions.push({ function: name, metric: op, baseline: referenceCount, current: count })
+      }
+    }
+  }
+  return regressions
+}
+
+// Writes <dir>/gas-profile.json and <dir>/gas-profile.md, one row per function with its MPC operations per call
+export function writeGasProfileReport(profile: GasProfile, regressions: GasRegression[], dir = "reports") {
+  fs.mkdirSync(dir, { recursive: true })
+
+  const jsonPath = path.join(dir, "gas-profile.json")
+  fs.writeFileSync(jsonPath, JSON.stringify({ ...profile, regressions }, null, 2))
+
+  const ops = (mpcOps?: Record<string, number>) => {
+    if (!mpcOps) return "not traced"
+    const entries = Object.entries(mpcOps)
+    return entries.length > 0 ? entries.map(([op, count]) => `${op} ×${count}`).join(", ") : "–"
+  }
+  const rows = Object.entries(profile.functions).map(
+    ([name, { calls, gas, mpcOps }]) => `| ${name} | ${calls} | ${gas.min} | ${gas.avg} | ${gas.max} | ${ops(mpcOps)} |`
+  )
+  const regressionRows = regressions.map(
+    ({ function: name, metric, baseline, current }) => `| ${name} | ${metric} | ${baseline} | ${current} |`
+  )
+
+  const markdown = [
+    "# Gas profile",
+    "",
+    `Network ${profile.network}, ${Object.keys(profile.functions).length} functions.`,
+    "",
+    "| function | calls | min gas | avg gas | max gas | MPC operations per call |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows,
+    "",
+    ...(regressions.length > 0
+      ? [
+          "## Regressions against the baseline",
+          "",
+          "| function | metric | baseline | current |",
+          "| --- | --- | --- | --- |",
+          ...regressionRows,
+          "",
+        ]
+      : []),
+  ].join("\n")
+  const markdownPath = path.join(dir, "gas-profile.md")
+  fs.writeFileSync(markdownPath, markdown)
+
+  return { jsonPath, markdownPath }
+}
+
+// Mocha options for hardhat.config.ts: GAS_PROFILE=true profiles the whole run, writes the report and fails the run
+// on regressions against the committed baseline (GAS_TOLERANCE, 0.05 by default). GAS_PROFILE=update rewrites the
+// baseline instead. Tests get no timeout while profiling.
+export function gasProfileMochaOptions(mode = process.env.GAS_PROFILE): Mocha.MochaOptions {
+  if (mode !== "true" && mode !== "update") return {}
+
+  return { rootHooks: gasProfileHooks(mode), timeout: 0 }
+}
+
+function gasProfileHooks(mode: "true" | "update"): Mocha.RootHookObject {
+  let profiler: GasProfiler
+  return {
+    async beforeAll() {
+      const { default: hre } = await import("hardhat")
+      profiler = new GasProfiler(hre.network.provider, hre.artifacts, hre.network.name === "hardhat")
+      await profiler.start()
+    },
+    async afterAll() {
+      const { default: hre } = await import("hardhat")
+      const profile = summarizeGasProfile(hre.network.name, await profiler.stop())
+
+      if (mode === "update") {
+        fs.writeFileSync(GAS_BASELINE_PATH, JSON.stringify(profile, null, 2) + "\n")
+        writeGasProfileReport(profile, [])
+        return
+      }
+
+      const baseline = fs.existsSync(GAS_BASELINE_PATH)
+        ? (JSON.parse(fs.readFileSync(GAS_BASELINE_PATH, "utf8")) as GasProfile)
+        : { network: profile.network, functions: {} }
+      const regressions = compareGasProfile(profile, baseline, Number(process.env.GAS_TOLERANCE ?? 0.05))
+      const { markdownPath } = writeGasProfileReport(profile, regressions)
+
+      if (regressions.length > 0) {
+        throw new Error(`${regressions.length} gas regressions against ${GAS_BASELINE_PATH}, see ${markdownPath}`)
+      }
+    },
+  }
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+const round = (value: number) => Math.round(value * 100) / 100
+const sortKeys = (record: Record<string, number>) =>
+  Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)))
@@ -0,0 +1,161 @@
+import type { Overrides } from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ConfidentialIdentityRegistry } from "../../typechain-types"
+import type { ItUint64 } from "../../typechain-types/mpc"
+import { decryptUint } from "./crypto"
+import { type PendingTransaction, sendTransaction, submitTransaction } from "./transactions"
+import { type CodecValue, decodeWords, encryptWords, wordKey } from "./word-codec"
+import { prepareItUint64 } from "./mpc-values"
+
+// A plain number fits one identifier, a string, date or JSON value takes one identifier per word (see wordKey)
+export type IdentifierValue = bigint | number | CodecValue
+
+// holder => verifier => identifiers the verifier may read
+export type PermissionMatrix = Record<string, Record<string, string[]>>
+
+// Drives ConfidentialIdentityRegistry for its three roles: the registry owner and the registrars it appoints, the
+// holders of the identities and the verifiers they disclose identifiers to. Every method takes the account acting.
+export class IdentityRegistryClient {
+  constructor(readonly registry: ConfidentialIdentityRegistry, private readonly overrides: Overrides = {}) {}
+
+  // Appoints a registrar, nothing is sent when it already has this id
+  async onboardRegistrar(owner: ConfidentialAccount, registrar: string, registrarId: number) {
+    if ((await this.registry.registrars(registrar)) === BigInt(registrarId)) return
+
+    await sendTransaction(this.registry.connect(owner.wallet).addRegistrar, registrar, registrarId, this.overrides)
+  }
+
+  async removeRegistrar(owner: ConfidentialAccount, registrar: string) {
+    await sendTransaction(this.registry.connect(owner.wallet).removeRegistrar, registrar, this.overrides)
+  }
+
+  // Registers the DIDs that are not registered yet under the registrar
+  async registerDids(registrar: ConfidentialAccount, wallets: string[]) {
+    const missing = []
+    for (const wallet of wallets) {
+      if ((await this.registry.getRegistrar(wallet)) === BigInt(0)) missing.push(wallet)
+    }
+
+    await this.sendBatch(
+      registrar,
+      missing.map(
+        (wallet) => (nonce) =>
+          submitTransaction(this.registry.connect(registrar.wallet).addDid, wallet, { ...this.overrides, nonce })
+      )
+    )
+  }
+
+  // Issues several identifiers of one DID, the transactions are sent back to back and awaited together.
+  // Returns the identifiers written, with the extra word slots of the string, date and JSON values.
+  async issueIdentifiers(registrar: ConfidentialAccount, wallet: string, identifiers: Record<string, IdentifierValue>) {
+    const registry = this.registry.connect(registrar.wallet)
+    const address = await registry.getAddress()
+    const selector = registry.setIdentifier.fragment.selector
+
+    const writes: ({ identifier: string } & ItUint64)[] = []
+    for (const [identifier, value] of Object.entries(identifiers)) {
+      if (typeof value === "object") {
+        const { ctInts, signatures } = await encryptWords(value, registrar, address, selector)
+        ctInts.forEach((ctInt, i) =>
+          writes.push({ identifier: wordKey(identifier, i), ctInt, signature: signatures[i] })
+        )
+      } else {
+        const { ctInt, signature } = await prepareItUint64(BigInt(value), registrar, address, selector)
+        writes.push({ identifier, ctInt, signature })
+      }
+    }
+
+    await this.sendBatch(
+      registrar,
+      writes.map(
+        ({ identifier, ctInt, signature }) =>
+          (nonce) =>
+            submitTransaction(registry.setIdentifier, wallet, identifier, ctInt, signature, {
+              ...this.overrides,
+              nonce,
+            })
+      )
+    )
+    return writes.map(({ identifier }) => identifier)
+  }
+
+  async grantAccess(holder: ConfidentialAccount, verifier: string, identifiers: string[]) {
+    await sendTransaction(this.registry.connect(holder.wallet).grantAccess, verifier, identifiers, this.overrides)
+  }
+
+  async revokeAccess(holder: ConfidentialAccount, verifier: string, identifiers: string[]) {
+    await sendTransaction(this.registry.connect(holder.wallet).revokeAccess, verifier, identifiers, this.overrides)
+  }
+
+  // Reads an identifier of the holder, re-encrypted by the registry for the verifier and decrypted with its key.
+  // Reverts like the contract when the holder did not grant access to it.
+  async getIdentifier(verifier: ConfidentialAccount, holder: string, identifier: string) {
+    const ct = await this.registry
+      .connect(verifier.wallet)
+      .getIdentifier.staticCall(holder, identifier, { ...this.overrides, from: verifier.wallet.address })
+
+    return decryptUint(ct, verifier.userKey)
+  }
+
+  // Reads a value issued as a string, date or JSON: the header word tells how many more words to read
+  async getIdentifierValue(verifier: ConfidentialAccount, holder: string, identifier: string) {
+    const header = await this.getIdentifier(verifier, holder, identifier)
+    const length = Number((header >> BigInt(16)) & BigInt(0xffffffff))
+
+    const words = [header]
+    for (let i = 1; i <= Math.ceil(length / 8); i++) {
+      words.push(await this.getIdentifier(verifier, holder, wordKey(identifier, i)))
+    }
+    return decodeWords(words)
+  }
+
+  // The registry keeps permissions in a private mapping without events, so the matrix is replayed from the successful
+  // grantAccess and revokeAccess transactions sent to it, block by block from fromBlock. Every block is fetched, so
+  // fromBlock is the deployment block of the registry rather than the genesis of a long-lived chain.
+  // Only direct calls are seen, and the registry owner can read every identifier whatever the matrix says.
+  async permissionMatrix(fromBlock: number, toBlock?: number) {
+    const provider = this.registry.runner!.provider!
+    const address = (await this.registry.getAddress()).toLowerCase()
+    const lastBlock = toBlock ?? (await provider.getBlockNumber())
+
+    const permissions = new Map<string, Map<string, Set<string>>>()
+    for (let blockNumber = fromBlock; blockNumber <= lastBlock; blockNumber++) {
+      const block = await provider.getBlock(blockNumber, true)
+      for (const tx of block?.prefetchedTransactions ?? []) {
+        if (tx.to?.toLowerCase() !== address) continue
+
+        const call = this.registry.interface.parseTransaction(tx)
+        if (call?.name !== "grantAccess" && call?.name !== "revokeAccess") continue
+        if ((await provider.getTransactionReceipt(tx.hash))?.status !== 1) continue
+
+        const [verifier, identifiers] = call.args as unknown as [string, string[]]
+        const byVerifier = permissions.get(tx.from) ?? new Map<string, Set<string>>()
+        const allowed = byVerifier.get(verifier) ?? new Set<string>()
+        for (const identifier of identifiers) {
+          if (call.name === "grantAccess") allowed.add(identifier)
+          else allowed.delete(identifier)
+        }
+        permissions.set(tx.from, byVerifier.set(verifier, allowed))
+      }
+    }
+
+    const matrix: PermissionMatrix = {}
+    for (const [holder, byVerifier] of permissions) {
+      for (const [verifier, allowed] of byVerifier) {
+        if (allowed.size === 0) continue
+        matrix[holder] = { ...matrix[holder], [verifier]: [...allowed].sort() }
+      }
+    }
+    return { owner: await this.registry.owner(), permissions: matrix }
+  }
+
+  // Nonces are assigned here so the transactions can be in flight together
+  private async sendBatch(sender: ConfidentialAccount, txs: ((nonce: number) => Promise<PendingTransaction>)[]) {
+    const nonce = await sender.wallet.getNonce("pending")
+    const sent = []
+    for (const [i, tx] of txs.entries()) {
+      sent.push(await tx(nonce + i))
+    }
+    return Promise.all(sent.map((tx) => tx.wait()))
+  }
+}
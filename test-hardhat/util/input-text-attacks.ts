@@ -0,0 +1,165 @@
+import { type ConfidentialAccount, buildInputText, signInputText } from "@coti-io/coti-sdk-typescript"
+import type { ItUint64 } from "../../typechain-types/mpc"
+import { asItUint64, prepareItUint64 } from "./mpc-values"
+
+// The ciphertext and signature passed to a function taking an itUint64. The mutated ones are cast to it: the compiler
+// would reject them, the network has to.
+export type InputText = ItUint64
+
+// A valid input text and what prepareIT made it for
+export type SignedInputText = InputText & {
+  value: bigint
+  sender: ConfidentialAccount
+  contractAddress: string
+  selector: string
+}
+
+export async function signedInputText(
+  value: bigint,
+  sender: ConfidentialAccount,
+  contractAddress: string,
+  selector: string
+): Promise<SignedInputText> {
+  return {
+    ...(await prepareItUint64(value, sender, contractAddress, selector)),
+    value,
+    sender,
+    contractAddress,
+    selector,
+  }
+}
+
+// The same ciphertext signed by the same sender for another function, e.g. an approve input replayed on transfer
+export function withSelector(input: SignedInputText, selector: string): InputText {
+  return asItUint64(input.ctInt, signInputText(input.sender, input.contractAddress, selector, input.ctInt))
+}
+
+// The same ciphertext signed by the same sender for another contract
+export function withContract(input: SignedInputText, contractAddress: string): InputText {
+  return asItUint64(input.ctInt, signInputText(input.sender, contractAddress, input.selector, input.ctInt))
+}
+
+// The same ciphertext signed by another account, as if it had made it
+export function withSigner(input: SignedInputText, signer: ConfidentialAccount): InputText {
+  return asItUint64(input.ctInt, signInputText(signer, input.contractAddress, input.selector, input.ctInt))
+}
+
+// The value encrypted with the key of another account, then signed properly by the sender: the network decrypts it
+// with the key of the sender, which gives an unrelated value
+export function withEncryptionKey(input: SignedInputText, account: ConfidentialAccount): InputText {
+  const { ctInt } = buildInputText(
+    input.value,
+    { wallet: input.sender.wallet, userKey: account.userKey },
+    input.contractAddress,
+    input.selector
+  )
+  return asItUint64(ctInt, signInputText(input.sender, input.contractAddress, input.selector, ctInt))
+}
+
+// The ciphertext xor mask with the original signature. The high 128 bits hold the encrypted value, the low ones the
+// random part the pad is drawn from.
+export function withCiphertext(input: InputText, mask: bigint): InputText {
+  return asItUint64(input.ctInt ^ mask, input.signature)
+}
+
+export function withSignature(input: InputText, mutate: (signature: Uint8Array) => Uint8Array): InputText {
+  return asItUint64(input.ctInt, mutate(new Uint8Array(input.signature)))
+}
+
+export type MutationTargets = {
+  // the account the mutations give or hand the input text to
+  otherAccount: ConfidentialAccount
+  otherContractAddress: string
+  // a function other than the target that takes an input text, for the replay across functions
+  otherSelector: string
+}
+
+// An input text that differs from a valid one in a single way, and the account that submits it
+export type InputTextMutation = {
+  name: string
+  // whether the network refuses the transaction. Pinned, so that a change in the sdk or in the precompile fails the
+  // suites instead of being taken as harmless.
+  rejected: boolean
+  // where the MPC emulator differs from the precompile
+  rejectedByEmulator?: boolean
+  mutate(input: SignedInputText, targets: MutationTargets): { input: InputText; submitter: ConfidentialAccount }
+}
+
+export function isRejected(mutation: InputTextMutation, emulated: boolean) {
+  return emulated ? mutation.rejectedByEmulator ?? mutation.rejected : mutation.rejected
+}
+
+// Every mutation of a valid input text the suites submit in place of it. The accepted ones must be as harmless as the
+// valid input would be.
+export const inputTextMutations: InputTextMutation[] = [
+  {
+    name: "signed for another function",
+    rejected: true,
+    // the emulator cannot see which function calls it
+    rejectedByEmulator: false,
+    mutate: (input, { otherSelector }) => ({ input: withSelector(input, otherSelector), submitter: input.sender }),
+  },
+  {
+    name: "signed for another contract",
+    rejected: true,
+    mutate: (input, { otherContractAddress }) => ({
+      input: withContract(input, otherContractAddress),
+      submitter: input.sender,
+    }),
+  },
+  {
+    name: "submitted by another account",
+    rejected: true,
+    mutate: (input, { otherAccount }) => ({ input, submitter: otherAccount }),
+  },
+  {
+    name: "signed by another account",
+    rejected: true,
+    mutate: (input, { otherAccount }) => ({ input: withSigner(input, otherAccount), submitter: input.sender }),
+  },
+  {
+    // a valid input text of the other account, of a value it cannot know
+    name: "signed and submitted by another account",
+    rejected: false,
+    mutate: (input, { otherAccount }) => ({ input: withSigner(input, otherAccount), submitter: otherAccount }),
+  },
+  {
+    name: "encrypted with the key of another account",
+    rejected: false,
+    mutate: (input, { otherAccount }) => ({
+      input: withEncryptionKey(input, otherAccount),
+      submitter: input.sender,
+    }),
+  },
+  {
+    name: "with its encrypted value altered",
+    rejected: true,
+    mutate: (input) => ({ input: withCiphertext(input, BigInt(1) << BigInt(128)), submitter: input.sender }),
+  },
+  {
+    name: "with its random part altered",
+    rejected: true,
+    mutate: (input) => ({ input: withCiphertext(input, BigInt(1)), submitter: input.sender }),
+  },
+  {
+    name: "with an altered signature",
+    rejected: true,
+    mutate: (input) => ({
+      input: withSignature(input, (signature) => signature.map((byte, i) => (i === 0 ? byte ^ 1 : byte))),
+      submitter: input.sender,
+    }),
+  },
+  {
+    name: "with a truncated signature",
+    rejected: true,
+    mutate: (input) => ({
+      input: withSignature(input, (signature) => signature.slice(0, 64)),
+      submitter: input.sender,
+    }),
+  },
+  {
+    name: "without a signature",
+    rejected: true,
+    mutate: (input) => ({ input: withSignature(input, () => new Uint8Array()), submitter: input.sender }),
+  },
+]
@@ -0,0 +1,167 @@
+import fs from "fs"
+import path from "path"
+import crypto from "crypto"
+import { Wallet } from "ethers"
+
+export type KeystoreEntry = {
+  address: string
+  privateKey: string
+  network: string
+  userKey?: string
+  onboardedAt?: string
+}
+
+// A keystore holds the signing keys of the test accounts and the AES user keys they got from onboarding.
+// Every operation is idempotent so the same file can be shared by the whole team.
+export interface Keystore {
+  load(network: string): Promise<KeystoreEntry[]>
+  create(network: string, count: number): Promise<{ entries: KeystoreEntry[]; created: KeystoreEntry[] }>
+  rotate(network: string, address: string, userKey: string): Promise<KeystoreEntry>
+  import(entries: KeystoreEntry[]): Promise<KeystoreEntry[]>
+}
+
+type KeystoreDocument = { version: 1; entries: KeystoreEntry[] }
+
+abstract class FileKeystore implements Keystore {
+  constructor(readonly filePath: string) {}
+
+  protected abstract decode(raw: string): KeystoreDocument
+  protected abstract encode(doc: KeystoreDocument): string
+
+  async load(network: string) {
+    return this.read().entries.filter((entry) => entry.network === network)
+  }
+
+  // Makes sure the network has at least `count` accounts, creating random wallets only for the missing ones
+  async create(network: string, count: number) {
+    const doc = this.read()
+    const created: KeystoreEntry[] = []
+    for (let i = doc.entries.filter((entry) => entry.network === network).length; i < count; i++) {
+      const wallet = Wallet.createRandom()
+      created.push({ address: wallet.address, privateKey: wallet.privateKey, network })
+    }
+
+    if (created.length > 0) {
+      doc.entries.push(...created)
+      this.write(doc)
+    }
+
+    return { entries: doc.entries.filter((entry) => entry.network === network).slice(0, count), created }
+  }
+
+  // Records a (new) user key for an account, e.g. after onboarding it again
+  async rotate(network: string, address: string, userKey: string) {
+    const doc = this.read()
+    const entry = doc.entries.find((e) => e.network === network && e.address.toLowerCase() === address.toLowerCase())
+    if (!entry) {
+      throw new Error(`Account ${address} is not in keystore ${this.filePath} for network ${network}`)
+    }
+
+    if (entry.userKey !== userKey) {
+      entry.userKey = userKey
+      entry.onboardedAt = new Date().toISOString()
+      this.write(doc)
+    }
+
+    return entry
+  }
+
+  // Adds accounts created outside of the keystore, skipping the ones it already knows
+  async import(entries: KeystoreEntry[]) {
+    const doc = this.read()
+    const known = new Set(doc.entries.map((entry) => `${entry.network}:${entry.address.toLowerCase()}`))
+    const added = entries.filter((entry) => !known.has(`${entry.network}:${entry.address.toLowerCase()}`))
+    if (added.length > 0) {
+      doc.entries.push(...added)
+      this.write(doc)
+    }
+
+    return added
+  }
+
+  private read(): KeystoreDocument {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: 1, entries: [] }
+    }
+
+    return this.decode(fs.readFileSync(this.filePath, "utf8"))
+  }
+
+  // Written to a temporary file first, so an interrupted run never leaves a truncated keystore behind
+  private write(doc: KeystoreDocument) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, this.encode(doc), { encoding: "utf8", mode: 0o600 })
+    fs.renameSync(tmpPath, this.filePath)
+  }
+}
+
+// Keys stored in clear, convenient for local development only
+export class PlaintextKeystore extends FileKeystore {
+  protected decode(raw: string) {
+    return JSON.parse(raw) as KeystoreDocument
+  }
+
+  protected encode(doc: KeystoreDocument) {
+    return JSON.stringify(doc, null, 2)
+  }
+}
+
+// The whole document is sealed with AES-256-GCM under a scrypt key derived from the password
+export class EncryptedKeystore extends FileKeystore {
+  constructor(filePath: string, private readonly password: string) {
+    super(filePath)
+  }
+
+  protected decode(raw: string) {
+    const { kdf, salt, iv, tag, ciphertext } = JSON.parse(raw)
+    if (kdf !== "scrypt") {
+      throw new Error(`Unsupported keystore kdf ${kdf} in ${this.filePath}`)
+    }
+
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      this.deriveKey(Buffer.from(salt, "hex")),
+      Buffer.from(iv, "hex")
+    )
+    decipher.setAuthTag(Buffer.from(tag, "hex"))
+    try {
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, "hex")), decipher.final()])
+      return JSON.parse(plaintext.toString("utf8")) as KeystoreDocument
+    } catch (error) {
+      throw new Error(`Could not decrypt keystore ${this.filePath}, wrong password?`)
+    }
+  }
+
+  protected encode(doc: KeystoreDocument) {
+    const salt = crypto.randomBytes(16)
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.deriveKey(salt), iv)
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(doc), "utf8"), cipher.final()])
+
+    return JSON.stringify(
+      {
+        version: 1,
+        kdf: "scrypt",
+        salt: salt.toString("hex"),
+        iv: iv.toString("hex"),
+        tag: cipher.getAuthTag().toString("hex"),
+        ciphertext: ciphertext.toString("hex"),
+      },
+      null,
+      2
+    )
+  }
+
+  private deriveKey(salt: Buffer) {
+    return crypto.scryptSync(this.password, salt, 32)
+  }
+}
+
+// KEYSTORE_PASSWORD selects the encrypted backend, KEYSTORE_PATH overrides the default ./.keystore.json
+export function openKeystore(
+  filePath = process.env.KEYSTORE_PATH ?? "./.keystore.json",
+  password = process.env.KEYSTORE_PASSWORD
+) {
+  return password ? new EncryptedKeystore(filePath, password) : new PlaintextKeystore(filePath)
+}
@@ -0,0 +1,150 @@
+import chai from "chai"
+import { TransactionResponse } from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { decryptUint } from "./crypto"
+import { TransactionError, decodeRevert, revertDataOf, waitForTransaction } from "./transactions"
+
+declare global {
+  namespace Chai {
+    interface Assertion {
+      revertedOnChain(reason?: string | RegExp): AsyncAssertion
+      revertedOnChainWithError(errorName: string, ...args: unknown[]): AsyncAssertion
+      decryptTo(expected: boolean, account: ConfidentialAccount): AsyncAssertion
+    }
+  }
+}
+
+// The subject of the revert matchers: a transaction as sendTransaction, submitTransaction or a contract method
+// return it, or a promise of one. sendTransaction resolves to the receipt once the transaction went through.
+type Sent = TransactionResponse | { hash: string; wait(): Promise<unknown> } | { blockNumber: number }
+
+// hardhat-chai-matchers only see the error a promise rejects with, and a node that mines failed transactions, like
+// devnet, gives none: tx.wait() throws without revert data. These matchers wait for the transaction themselves and
+// replay it on the block before the failing one to recover why it reverted, then compare with what is expected:
+//
+//   await expect(sendTransaction(nft.connect(other.wallet).mint, other.wallet.address)).to.be.revertedOnChain()
+//   await expect(auction.claim()).to.be.revertedOnChainWithError("TooEarly", endTime)
+//   await expect(auction.doIHaveHighestBid.staticCall()).to.decryptTo(true, bidder)
+export function confidentialMatchers(chaiStatic: Chai.ChaiStatic, utils: Chai.ChaiUtils) {
+  const { Assertion } = chaiStatic
+
+  Assertion.addMethod("revertedOnChain", function (this: Chai.AssertionStatic, reason?: string | RegExp) {
+    const expected = reason === undefined ? "" : ` with reason '${reason instanceof RegExp ? reason.source : reason}'`
+
+    return asyncAssertion(this, utils, failureOf(this._obj), (failure, assert) => {
+      if (!failure) return assert(false, `Expected transaction to revert${expected}, it went through`)
+      if (reason === undefined) return assert(true, "", `Expected transaction not to revert, ${failure.message}`)
+
+      const actual = failure.revert?.name === "Error" ? String(failure.revert.args[0]) : undefined
+      const matches = actual !== undefined && (reason instanceof RegExp ? reason.test(actual) : actual === reason)
+      assert(
+        matches,
+        `Expected ${failure.method} to revert${expected}, it ${outcome(failure)}`,
+        `Expected ${failure.method} not to revert${expected}, it did`
+      )
+    })
+  })
+
+  Assertion.addMethod(
+    "revertedOnChainWithError",
+    function (this: Chai.AssertionStatic, errorName: string, ...args: unknown[]) {
+      const expected = `${errorName}${args.length > 0 ? `(${args.map(String).join(", ")})` : ""}`
+
+      return asyncAssertion(this, utils, failureOf(this._obj), (failure, assert) => {
+        if (!failure) return assert(false, `Expected transaction to revert with ${expected}, it went through`)
+
+        const revert = failure.revert
+        let matches = revert?.name === errorName
+        if (matches && args.length > 0) {
+          matches = args.length === revert!.args.length && args.every((arg, i) => sameValue(arg, revert!.args[i]))
+        }
+        assert(
+          matches,
+          `Expected ${failure.method} to revert with ${expected}, it ${outcome(failure)}`,
+          `Expected ${failure.method} not to revert with ${expected}, it did`
+        )
+      })
+    }
+  )
+
+  // For ctBool values such as the result of doIHaveHighestBid, a ciphertext never written counts as false
+  Assertion.addMethod(
+    "decryptTo",
+    function (this: Chai.AssertionStatic, expected: boolean, account: ConfidentialAccount) {
+      const decrypted = Promise.resolve(this._obj).then(
+        (ct: bigint) => ct !== BigInt(0) && decryptUint(BigInt(ct), account.userKey) !== BigInt(0)
+      )
+
+      return asyncAssertion(this, utils, decrypted, (actual, assert) =>
+        assert(
+          actual === expected,
+          `Expected the ciphertext to decrypt to ${expected} for ${account.wallet.address}, it decrypts to ${actual}`,
+          `Expected the ciphertext not to decrypt to ${expected} for ${account.wallet.address}`
+        )
+      )
+    }
+  )
+}
+
+type Assert = (condition: boolean, message: string, negatedMessage?: string) => void
+
+// Settles the subject, then runs the check with an assert that honours .not. The assertion is made awaitable.
+function asyncAssertion<T>(
+  assertion: Chai.AssertionStatic,
+  utils: Chai.ChaiUtils,
+  subject: Promise<T>,
+  check: (value: T, assert: Assert) => void
+) {
+  // read before the subject settles, chai resets the flags once the matcher returns
+  const negated = utils.flag(assertion, "negate") === true
+  const assert: Assert = (condition, message, negatedMessage = message) => {
+    if (negated ? condition : !condition) throw new chai.AssertionError(negated ? negatedMessage : message)
+  }
+
+  const derived = subject.then((value) => check(value, assert))
+  Object.assign(assertion, { then: derived.then.bind(derived), catch: derived.catch.bind(derived) })
+  return assertion
+}
+
+// The TransactionError the transaction failed with, undefined when it went through. An error that is not a revert,
+// such as a network error or a wait that timed out, is thrown again.
+async function failureOf(subject: unknown) {
+  let sent: Sent
+  try {
+    sent = (await subject) as Sent
+  } catch (error) {
+    if (isRevert(error)) return error
+    // a contract method estimates before sending, a revert at that point comes with its data
+    const data = revertDataOf(error)
+    if (data !== undefined)
+      return new TransactionError("transaction", "estimate", await decodeRevert(data), data, undefined, error)
+    throw error
+  }
+
+  if (!("wait" in sent)) return undefined
+  try {
+    await (sent instanceof TransactionResponse ? waitForTransaction(sent) : sent.wait())
+  } catch (error) {
+    if (isRevert(error)) return error
+    throw error
+  }
+  return undefined
+}
+
+function isRevert(error: unknown): error is TransactionError {
+  return error instanceof TransactionError && (error.stage === "estimate" || error.stage === "mined")
+}
+
+function outcome(failure: TransactionError) {
+  return failure.message.slice(failure.method.length + 1)
+}
+
+function sameValue(expected: unknown, actual: unknown) {
+  if (typeof actual === "bigint" && (typeof expected === "number" || typeof expected === "bigint")) {
+    return actual === BigInt(expected)
+  }
+  if (typeof actual === "string" && typeof expected === "string") return actual.toLowerCase() === expected.toLowerCase()
+  return actual === expected
+}
+
+chai.use(confidentialMatchers)
@@ -0,0 +1,94 @@
+import hre from "hardhat"
+import { AbiCoder, FunctionFragment, type JsonFragment, Wallet, id, keccak256, parseEther, toBeHex } from "ethers"
+import { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { Network } from "hardhat/types"
+import { usesMpcEmulator } from "./networks"
+
+export const MPC_PRECOMPILE_ADDRESS = "0x0000000000000000000000000000000000000064"
+export const DEFAULT_EMULATOR_SEED = id("coti-mpc-emulator")
+
+// The in-process Hardhat network and a local node have no MPC precompile, the other networks run against the real one
+export function isEmulatedNetwork() {
+  return usesMpcEmulator(hre.network)
+}
+
+// Runs fn with isEmulatedNetwork() false, for tests of what the helpers do on devnet. The chain is still the
+// in-process one with the emulator at the precompile address, only the network name and config change.
+export async function asLiveNetwork<T>(fn: () => Promise<T>) {
+  // hre.network is read only for plugins
+  const runtime = hre as { network: Network }
+  const network = runtime.network
+  runtime.network = {
+    ...network,
+    name: "devnet",
+    config: { ...network.config, mpcEmulator: false } as Network["config"],
+  }
+  try {
+    return await fn()
+  } finally {
+    runtime.network = network
+  }
+}
+
+// Installs the MpcEmulator contract at the precompile address. Safe to call before every suite:
+// an already configured emulator (e.g. after evm_revert) is left untouched.
+export async function installMpcEmulator(seed = DEFAULT_EMULATOR_SEED) {
+  const artifact = await hre.artifacts.readArtifact("MpcEmulator")
+  const code = await hre.ethers.provider.getCode(MPC_PRECOMPILE_ADDRESS)
+  if (code === artifact.deployedBytecode) {
+    const emulator = await hre.ethers.getContractAt("MpcEmulator", MPC_PRECOMPILE_ADDRESS)
+    if ((await emulator.seed()) === seed) {
+      return emulator
+    }
+  }
+
+  await hre.network.provider.send("hardhat_setCode", [MPC_PRECOMPILE_ADDRESS, artifact.deployedBytecode])
+
+  const [signer] = await hre.ethers.getSigners()
+  const emulator = await hre.ethers.getContractAt("MpcEmulator", MPC_PRECOMPILE_ADDRESS, signer)
+  await (await emulator.configure(seed, await getInputTextSelectors())).wait()
+
+  return emulator
+}
+
+// Same derivation as MpcEmulator.userKey, in the hex format returned by the sdk onboarding
+export function emulatorUserKey(address: string, seed = DEFAULT_EMULATOR_SEED) {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["bytes32", "address"], [seed, address])).slice(2, 34)
+}
+
+// Deterministic funded accounts whose user keys are known to the emulator, no onboarding transaction needed
+export async function setupEmulatedAccounts(count = 2, seed = DEFAULT_EMULATOR_SEED) {
+  await installMpcEmulator(seed)
+
+  return Promise.all(
+    Array.from({ length: count }, async (_, i) => {
+      const wallet = new Wallet(id(`${seed}:${i}`), hre.ethers.provider)
+      await hre.network.provider.send("hardhat_setBalance", [wallet.address, toBeHex(parseEther("1000"))])
+
+      return new ConfidentialAccount(wallet, emulatorUserKey(wallet.address, seed))
+    })
+  )
+}
+
+// Selectors of every compiled function taking an input text, i.e. a ct value followed by its signature, or an array of
+// them followed by the array of signatures
+async function getInputTextSelectors() {
+  const selectors = new Set<string>()
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name)
+    for (const entry of abi as JsonFragment[]) {
+      if (entry.type !== "function") continue
+
+      const inputs = entry.inputs ?? []
+      const takesInputText = inputs.some((input, i) => {
+        const match = /^ct(Bool|Uint\d+)(\[\])?$/.exec(input.internalType ?? "")
+        return match !== null && inputs[i + 1]?.type === `bytes${match[2] ?? ""}`
+      })
+      if (takesInputText) {
+        selectors.add(FunctionFragment.from(entry).selector)
+      }
+    }
+  }
+
+  return [...selectors]
+}
@@ -0,0 +1,33 @@
+import { type ConfidentialAccount, prepareIT } from "@coti-io/coti-sdk-typescript"
+import type { CtBool, CtUint8, CtUint16, CtUint32, CtUint64, ItUint64, MpcValue } from "../../typechain-types/mpc"
+import { decryptUint } from "./crypto"
+
+// Typed counterparts of the sdk helpers, for the branded types tasks/mpc-types.ts gives the contract typings
+
+export async function prepareItUint64(
+  value: bigint,
+  sender: ConfidentialAccount,
+  contractAddress: string,
+  functionSelector: string
+) {
+  return (await prepareIT(value, sender, contractAddress, functionSelector)) as ItUint64
+}
+
+// Only a user ciphertext decrypts, but the ABI does not tell them from network ones: both are a ctUint64
+export function decryptCtUint(ct: CtUint8 | CtUint16 | CtUint32 | CtUint64, userKey: string) {
+  return decryptUint(ct, userKey)
+}
+
+export function decryptCtBool(ct: CtBool, userKey: string) {
+  return decryptUint(ct, userKey) === BigInt(1)
+}
+
+// Unchecked casts, for the values a test builds on purpose: a forged ciphertext or input text, a gt handle passed from
+// outside a contract
+export function asMpcValue<T extends MpcValue<bigint, string>>(value: bigint | number) {
+  return BigInt(value) as T
+}
+
+export function asItUint64(ctInt: bigint, signature: Uint8Array) {
+  return { ctInt, signature } as ItUint64
+}
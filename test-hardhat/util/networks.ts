@@ -0,0 +1,89 @@
+import fs from "fs"
+import type { HttpNetworkUserConfig, Network } from "hardhat/types"
+
+declare module "hardhat/types/config" {
+  interface HttpNetworkUserConfig {
+    // the node has no MPC precompile and gets contracts/mocks/MpcEmulator.sol instead, e.g. a local `hardhat node`
+    mpcEmulator?: boolean
+  }
+
+  interface HttpNetworkConfig {
+    mpcEmulator?: boolean
+  }
+}
+
+export type NetworkDefinition = {
+  url: string
+  chainId: number
+  mpcEmulator?: boolean
+}
+
+// Shape of the networks file, every field is optional
+export type NetworksFile = {
+  defaultNetwork?: string
+  networks?: Record<string, NetworkDefinition>
+}
+
+export const builtinNetworks: Record<string, NetworkDefinition> = {
+  devnet: { url: "https://devnet.coti.io/rpc", chainId: 13068200 },
+  testnet: { url: "https://testnet.coti.io/rpc", chainId: 7082400 },
+  // `yarn hardhat node` in another terminal, the suites install the MPC emulator on it like in-process
+  localhost: { url: "http://127.0.0.1:8545", chainId: 31337, mpcEmulator: true },
+}
+
+// The built-in networks, overridden or extended by the networks file (NETWORKS_PATH, defaults to ./networks.json) and
+// by a `custom` network when RPC_URL and CHAIN_ID are set. The in-process `hardhat` network is always there.
+export function loadNetworks(env: NodeJS.ProcessEnv = process.env) {
+  const file = readNetworksFile(env.NETWORKS_PATH ?? "./networks.json")
+  const definitions: Record<string, NetworkDefinition> = { ...builtinNetworks, ...file.networks }
+  if (env.RPC_URL || env.CHAIN_ID) {
+    definitions.custom = {
+      url: env.RPC_URL ?? "",
+      chainId: Number(env.CHAIN_ID),
+      mpcEmulator: env.MPC_EMULATOR === "true",
+    }
+  }
+
+  const networks: Record<string, HttpNetworkUserConfig> = {}
+  for (const [name, definition] of Object.entries(definitions)) {
+    networks[name] = toNetworkConfig(name, definition)
+  }
+
+  const defaultNetwork = file.defaultNetwork ?? "devnet"
+  if (defaultNetwork !== "hardhat" && !(defaultNetwork in networks)) {
+    throw new Error(`Default network ${defaultNetwork} is not defined, known networks: ${Object.keys(networks)}`)
+  }
+
+  return { defaultNetwork, networks }
+}
+
+function readNetworksFile(filePath: string): NetworksFile {
+  if (!fs.existsSync(filePath)) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as NetworksFile
+  } catch (error) {
+    throw new Error(`Could not parse networks file ${filePath}: ${(error as Error).message}`)
+  }
+}
+
+function toNetworkConfig(name: string, { url, chainId, mpcEmulator }: NetworkDefinition): HttpNetworkUserConfig {
+  if (name === "hardhat") {
+    throw new Error("Network hardhat is the in-process network and cannot be redefined")
+  }
+  if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+    throw new Error(`Network ${name} needs an http(s) url, got ${url}`)
+  }
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error(`Network ${name} needs a positive integer chainId, got ${chainId}`)
+  }
+
+  return { url, chainId, ...(mpcEmulator ? { mpcEmulator } : {}) }
+}
+
+// The in-process network and the ones flagged mpcEmulator run contracts/mocks/MpcEmulator.sol instead of the precompile
+export function usesMpcEmulator({ name, config }: Network) {
+  return name === "hardhat" || ("mpcEmulator" in config && config.mpcEmulator === true)
+}
@@ -0,0 +1,83 @@
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { NFTExample } from "../../typechain-types"
+import { type CiphertextInspection, inspectCiphertext } from "./ciphertext-inspector"
+import { type CodecValue, decodeWords } from "./word-codec"
+
+// What an account reads of the URIs of a token. The contract re-encrypts both for the owner on every transfer, so
+// only the current owner sees them as user ciphertexts.
+export type TokenURIs = {
+  // the single-word tokenURI, a user ciphertext of 0 until the owner sets it
+  uri: CiphertextInspection
+  // one inspection per word of tokenURIWords, empty when the token has none
+  words: CiphertextInspection[]
+}
+
+export type PortfolioToken = {
+  tokenId: bigint
+  // the decrypted single-word URI, unset when it is not a user ciphertext of the holder
+  uri?: bigint
+  // the decrypted multi-word URI, unset when the token has none or the holder cannot decrypt every word
+  uriWords?: CodecValue
+}
+
+export type Portfolio = { address: string; balance: bigint; tokens: PortfolioToken[] }
+
+// Lists the tokens an account holds from the Transfer logs of an NFTExample, and decrypts what the holder can read
+// of them with its user key: the URIs of each token and the encrypted balance.
+export class NftPortfolioClient {
+  // fromBlock: the block the contract was deployed in, the logs before it are not read
+  constructor(readonly nft: NFTExample, readonly fromBlock = 0) {}
+
+  // Every token the address received and has not sent since, in the order it got them
+  async tokenIds(address: string) {
+    const [received, sent] = await Promise.all([
+      this.nft.queryFilter(this.nft.filters.Transfer(undefined, address), this.fromBlock),
+      this.nft.queryFilter(this.nft.filters.Transfer(address, undefined), this.fromBlock),
+    ])
+    const logs = [...received, ...sent].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+
+    const held = new Set<bigint>()
+    for (const { args } of logs) {
+      // a token sent to itself stays
+      if (args.to.toLowerCase() === address.toLowerCase()) held.add(args.tokenId)
+      else held.delete(args.tokenId)
+    }
+    return [...held]
+  }
+
+  // balanceOf ignores its argument and returns the ciphertext of the caller, so it is called by the holder itself
+  async balanceOf(holder: ConfidentialAccount) {
+    const ct = await this.nft.connect(holder.wallet).balanceOf(holder.wallet.address)
+    const inspection = inspectCiphertext(ct, holder)
+    if (inspection.domain === "network") {
+      throw new Error(`The balance of ${holder.wallet.address} is not a ciphertext its user key decrypts`)
+    }
+    return inspection.domain === "user" ? inspection.value : BigInt(0)
+  }
+
+  async tokenURIs(tokenId: bigint, account: ConfidentialAccount): Promise<TokenURIs> {
+    const [uri, words] = await Promise.all([this.nft.tokenURI(tokenId), this.nft.tokenURIWords(tokenId)])
+    return {
+      uri: inspectCiphertext(uri, account),
+      words: words.map((word) => inspectCiphertext(word, account)),
+    }
+  }
+
+  async portfolio(holder: ConfidentialAccount): Promise<Portfolio> {
+    const tokenIds = await this.tokenIds(holder.wallet.address)
+    const tokens = await Promise.all(
+      tokenIds.map(async (tokenId): Promise<PortfolioToken> => {
+        const { uri, words } = await this.tokenURIs(tokenId, holder)
+        const values = words.map((word) => (word.domain === "user" ? word.value : undefined))
+
+        return {
+          tokenId,
+          ...(uri.domain === "user" ? { uri: uri.value } : {}),
+          ...(words.length > 0 && !values.includes(undefined) ? { uriWords: decodeWords(values as bigint[]) } : {}),
+        }
+      })
+    )
+
+    return { address: holder.wallet.address, balance: await this.balanceOf(holder), tokens }
+  }
+}
@@ -1,53 +1,97 @@
-import fs from "fs"
 import hre from "hardhat"
-import { Wallet, parseEther } from "ethers"
+import { Wallet, formatEther, parseEther } from "ethers"
 import { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { isEmulatedNetwork, setupEmulatedAccounts } from "./mpc-emulator"
+import { type Keystore, openKeystore } from "./keystore"
+import { checkUserKey, openProfile } from "./profiles"
 
-let pks = process.env.SIGNING_KEYS ? process.env.SIGNING_KEYS.split(",") : []
-
-export async function setupAccounts() {
-  if (pks.length == 0) {
-    const key1 = hre.ethers.Wallet.createRandom(hre.ethers.provider)
-    const key2 = hre.ethers.Wallet.createRandom(hre.ethers.provider)
-    pks = [key1.privateKey, key2.privateKey]
+export type SetupAccountsOptions = {
+  keystore?: Keystore
+  // accounts holding less than minBalance get topUpAmount from the funder (the first account)
+  minBalance?: bigint
+  topUpAmount?: bigint
+  // sends the onboarding transaction of an account without a user key
+  onboard?: (wallet: Wallet) => Promise<ConfidentialAccount>
+}
 
-    setEnvValue("SIGNING_KEYS", `${key1.privateKey},${key2.privateKey}`)
+const defaultOptions = {
+  minBalance: parseEther("0.05"),
+  topUpAmount: parseEther("0.1"),
+  onboard: (wallet: Wallet) => ConfidentialAccount.onboard(wallet),
+}
 
-    throw new Error(`Created new random account ${key1.address}. Please use faucet to fund it.`)
+export async function setupAccounts(count = 2, options: SetupAccountsOptions = {}) {
+  if (isEmulatedNetwork()) {
+    return setupEmulatedAccounts(count)
   }
 
-  const wallets = pks.map((pk) => new hre.ethers.Wallet(pk, hre.ethers.provider))
-  if ((await hre.ethers.provider.getBalance(wallets[0].address)) === BigInt("0")) {
-    throw new Error(`Please use faucet to fund account ${wallets[0].address}`)
+  return setupKeystoreAccounts(count, options)
+}
+
+// The accounts of the keystore profile of the current chain: the first one funds the others and the ones without a
+// user key are onboarded
+export async function setupKeystoreAccounts(count: number, options: SetupAccountsOptions = {}) {
+  const { keystore = openKeystore(), minBalance, topUpAmount, onboard } = { ...defaultOptions, ...options }
+  const profile = await openProfile(hre, keystore)
+
+  const { entries, created } = await keystore.create(profile, count)
+  if (created.some((entry) => entry.address === entries[0].address)) {
+    throw new Error(`Created new random account ${entries[0].address}. Please use faucet to fund it.`)
   }
 
-  let userKeys = process.env.USER_KEYS ? process.env.USER_KEYS.split(",") : []
+  const wallets = entries.map((entry) => new hre.ethers.Wallet(entry.privateKey, hre.ethers.provider))
+  await fundAccounts(wallets[0], wallets.slice(1), minBalance, topUpAmount)
 
-  const toAccount = async (wallet: Wallet, userKey?: string) => {
-    if (userKey) {
-      return new ConfidentialAccount(wallet, userKey)
-    }
+  // Onboarding is sent by each account itself, so the missing ones can go in parallel
+  return Promise.all(
+    wallets.map(async (wallet, i) => {
+      const userKey = entries[i].userKey
+      if (userKey) {
+        const account = new ConfidentialAccount(wallet, userKey)
+        await checkUserKey(hre, account)
+        return account
+      }
 
-    console.log("************* Onboarding user ", wallet.address, " *************")
-    const account = await ConfidentialAccount.onboard(wallet)
-    console.log("************* Onboarded! created user key and saved into .env file *************")
+      console.log("************* Onboarding user ", wallet.address, " *************")
+      const account = await onboard(wallet)
+      await keystore.rotate(profile, wallet.address, account.userKey)
+      console.log("************* Onboarded! created user key and saved into the keystore *************")
 
-    return account
-  }
+      return account
+    })
+  )
+}
 
-  let accounts: ConfidentialAccount[] = []
-  if (userKeys.length !== wallets.length) {
-    await (await wallets[0].sendTransaction({ to: wallets[1].address, value: parseEther("0.1") })).wait()
+// Gives each role its own account, e.g. setupNamedAccounts(["owner", ...bidderRoles(3)]).
+// Roles are mapped to keystore accounts in order, the first account is also the funder. `skip` leaves out the first
+// accounts, e.g. 1 for holders that must not be the owner.
+export async function setupNamedAccounts<R extends string>(
+  roles: readonly R[],
+  { skip = 0, ...options }: SetupAccountsOptions & { skip?: number } = {}
+) {
+  const accounts = (await setupAccounts(skip + roles.length, options)).slice(skip)
 
-    accounts = await Promise.all(wallets.map(async (account, i) => await toAccount(account)))
-    setEnvValue("USER_KEYS", accounts.map((a) => a.userKey).join(","))
-  } else {
-    accounts = await Promise.all(wallets.map(async (account, i) => await toAccount(account, userKeys[i])))
-  }
+  return Object.fromEntries(roles.map((role, i) => [role, accounts[i]])) as Record<R, ConfidentialAccount>
+}
 
-  return accounts
+export function bidderRoles(count: number) {
+  return Array.from({ length: count }, (_, i) => `bidder${i + 1}` as const)
 }
 
-function setEnvValue(key: string, value: string) {
-  fs.appendFileSync("./.env", `\n${key}=${value}`, "utf8")
+async function fundAccounts(funder: Wallet, wallets: Wallet[], minBalance: bigint, topUpAmount: bigint) {
+  const balances = await Promise.all(wallets.map((wallet) => hre.ethers.provider.getBalance(wallet.address)))
+  const toFund = wallets.filter((_, i) => balances[i] < minBalance)
+
+  const funderBalance = await hre.ethers.provider.getBalance(funder.address)
+  if (funderBalance === BigInt("0") || funderBalance < topUpAmount * BigInt(toFund.length)) {
+    throw new Error(`Please use faucet to fund account ${funder.address} (balance ${formatEther(funderBalance)})`)
+  }
+
+  // Explicit nonces let all the top ups be mined together instead of one after the other
+  let nonce = await funder.getNonce("pending")
+  const txs = []
+  for (const wallet of toFund) {
+    txs.push(await funder.sendTransaction({ to: wallet.address, value: topUpAmount, nonce: nonce++ }))
+  }
+  await Promise.all(txs.map((tx) => tx.wait()))
 }
@@ -0,0 +1,317 @@
+import fs from "fs"
+import path from "path"
+import {
+  type Overrides,
+  type Provider,
+  type TransactionReceipt,
+  type TransactionResponse,
+  getAddress,
+  id,
+  isAddress,
+} from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { ConfidentialERC20 } from "../../typechain-types"
+import { decryptCtUint, prepareItUint64 } from "./mpc-values"
+import { type SignedTransaction, TransactionError, signTransaction, waitForTransaction } from "./transactions"
+
+const maxUint64 = (BigInt(1) << BigInt(64)) - BigInt(1)
+
+// One line of the CSV, line is its 1-based line number and identifies the payout in the checkpoint
+export type Payout = { line: number; to: string; amount: bigint }
+
+// sent: signed, and in flight or mined but not verified yet. It is recorded before the transaction is broadcast.
+// paid: the balance of the sender went down by the amount. failed: the transfer moved nothing, it is sent again on the
+// next run. unverified: the balance moved by something else in the same block, or the nonce of the transfer was used
+// by a transaction the node knows nothing about: someone has to check the recipient before it is sent again.
+export type PayoutStatus =
+  | { state: "sent"; nonce: number; hash: string }
+  | { state: "paid"; nonce: number; hash: string; blockNumber: number }
+  | { state: "failed"; reason: string; hash?: string }
+  | { state: "unverified"; reason: string; hash: string; blockNumber?: number }
+
+type SentStatus = Extract<PayoutStatus, { state: "sent" }>
+
+// What a checkpoint belongs to, resuming with another CSV, token, sender or chain is refused
+export type PayoutRun = { chainId: string; token: string; sender: string; csvHash: string }
+
+type CheckpointDocument = { version: 1; run: PayoutRun; payouts: Record<string, PayoutStatus> }
+
+// Reads address,amount lines, amounts in the smallest unit of the token. Blank lines, # comments and a header line
+// are skipped.
+export function parsePayoutCsv(csv: string): Payout[] {
+  const payouts: Payout[] = []
+  csv.split(/\r?\n/).forEach((raw, i) => {
+    const text = raw.trim()
+    if (text === "" || text.startsWith("#")) return
+
+    const [to, amount, ...rest] = text.split(",").map((field) => field.trim())
+    if (i === 0 && !isAddress(to)) return
+    if (!isAddress(to) || rest.length > 0) {
+      throw new Error(`Line ${i + 1}: expected <address>,<amount>, got "${text}"`)
+    }
+    if (!/^\d+$/.test(amount ?? "") || BigInt(amount) > maxUint64) {
+      throw new Error(`Line ${i + 1}: amount ${amount} is not a uint64 in the smallest unit of the token`)
+    }
+
+    payouts.push({ line: i + 1, to: getAddress(to), amount: BigInt(amount) })
+  })
+
+  return payouts
+}
+
+export function hashPayoutCsv(csv: string) {
+  return id(csv.replace(/\r\n/g, "\n"))
+}
+
+// Status of every payout of a run, written after each change so that a crashed run can be resumed
+export class PayoutCheckpoint {
+  constructor(readonly filePath: string) {}
+
+  // The statuses recorded for the run, an empty checkpoint starts it
+  open(run: PayoutRun): Record<string, PayoutStatus> {
+    const doc = this.read()
+    if (!doc) {
+      this.write({ version: 1, run, payouts: {} })
+      return {}
+    }
+
+    for (const key of Object.keys(run) as (keyof PayoutRun)[]) {
+      if (doc.run[key].toLowerCase() !== run[key].toLowerCase()) {
+        throw new Error(`Checkpoint ${this.filePath} belongs to another run: ${key} ${doc.run[key]}, not ${run[key]}`)
+      }
+    }
+    return doc.payouts
+  }
+
+  record(updates: Record<number, PayoutStatus | undefined>) {
+    const doc = this.read()!
+    for (const [line, status] of Object.entries(updates)) {
+      if (status) doc.payouts[line] = status
+      else delete doc.payouts[line]
+    }
+    this.write(doc)
+  }
+
+  private read(): CheckpointDocument | undefined {
+    if (!fs.existsSync(this.filePath)) return undefined
+
+    return JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+  }
+
+  // Same temporary file and rename as the keystore, so an interrupted run never truncates the checkpoint
+  private write(doc: CheckpointDocument) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(doc, null, 2))
+    fs.renameSync(tmpPath, this.filePath)
+  }
+}
+
+export type PayoutOptions = {
+  // transactions in flight at once, each one with the next nonce of the sender
+  window?: number
+  // input texts prepared at once
+  concurrency?: number
+  // added to every transfer, e.g. a gasLimit for several of them to fit in a block of the emulated network
+  overrides?: Overrides
+  onStatus?: (payout: Payout, status: PayoutStatus) => void
+}
+
+export type PayoutResult = { statuses: Map<Payout, PayoutStatus>; sent: number }
+
+// Pays every payout not paid yet with an encrypted transfer from sender. The input texts are prepared ahead, the
+// transfers go out back to back with explicit nonces and only `window` of them wait to be mined at once. Each one is
+// signed and checkpointed as sent before it is broadcast, so a crash never leaves a transfer the checkpoint does not
+// know about.
+//
+// An encrypted transfer does not revert when the balance is too low, it moves nothing. Each block holding transfers
+// is checked by decrypting the balance of the sender before and after it: transfers run in nonce order and each one
+// moves its amount only if the balance covers it, so the expected balance is known and tells which ones went through.
+export async function payout(
+  token: ConfidentialERC20,
+  sender: ConfidentialAccount,
+  payouts: Payout[],
+  checkpoint: PayoutCheckpoint,
+  csvHash: string,
+  { window = 16, concurrency = 8, overrides = {}, onStatus }: PayoutOptions = {}
+): Promise<PayoutResult> {
+  token = token.connect(sender.wallet)
+  const provider = token.runner!.provider!
+  const transfer = token["transfer(address,uint256,bytes,bool)"]
+  const address = await token.getAddress()
+  const { chainId } = await provider.getNetwork()
+
+  const recorded = checkpoint.open({
+    chainId: chainId.toString(),
+    token: address,
+    sender: sender.wallet.address,
+    csvHash,
+  })
+  const statuses = new Map(payouts.flatMap((p) => (recorded[p.line] ? [[p, recorded[p.line]] as const] : [])))
+  const update = (changes: [Payout, PayoutStatus | undefined][]) => {
+    checkpoint.record(Object.fromEntries(changes.map(([p, status]) => [p.line, status])))
+    for (const [p, status] of changes) {
+      if (!status) statuses.delete(p)
+      else {
+        statuses.set(p, status)
+        onStatus?.(p, status)
+      }
+    }
+  }
+
+  // A sent transfer without a receipt is looked up by its hash. One unknown to the node is sent again, as failed with
+  // the error that interrupted it if there was one, as long as its nonce is unused. Once the nonce was taken by a
+  // transaction the node does not know of, it may have paid: it is left unverified rather than paid twice.
+  const mined: MinedTransfer[] = []
+  const resolve = async (p: Payout, status: SentStatus, error?: unknown) => {
+    const outcome = await settle(provider, status)
+    if (outcome.receipt) mined.push({ payout: p, nonce: status.nonce, receipt: outcome.receipt })
+    else if (outcome.status) update([[p, outcome.status]])
+    else if ((await sender.wallet.getNonce("latest")) <= status.nonce) {
+      update([[p, error === undefined ? undefined : { state: "failed", reason: messageOf(error), hash: status.hash }]])
+    } else {
+      const reason = `nonce ${status.nonce} was used since, the node does not know ${status.hash}`
+      update([[p, { state: "unverified", reason, hash: status.hash }]])
+    }
+  }
+
+  // Transfers of a previous run that were sent but not verified
+  for (const p of payouts) {
+    const status = statuses.get(p)
+    if (status?.state === "sent") await resolve(p, status)
+  }
+
+  const pending = payouts.filter((p) => !statuses.has(p) || statuses.get(p)!.state === "failed")
+  const inputs = await mapConcurrently(pending, concurrency, (p) =>
+    prepareItUint64(p.amount, sender, address, transfer.fragment.selector)
+  )
+
+  let nonce = await sender.wallet.getNonce("pending")
+  const inFlight: Promise<void>[] = []
+  // the transfers whose broadcast or wait failed, resolved once the others are settled
+  const interrupted: [Payout, SentStatus, unknown][] = []
+  let sent = 0
+  for (const [i, p] of pending.entries()) {
+    const { ctInt, signature } = inputs[i]
+    let signed: SignedTransaction
+    try {
+      signed = await signTransaction(transfer, p.to, ctInt, signature, false, { ...overrides, nonce })
+    } catch (error) {
+      // nothing was sent, the payouts after this one are left for the next run
+      update([[p, { state: "failed", reason: messageOf(error) }]])
+      break
+    }
+    const status: SentStatus = { state: "sent", nonce: nonce++, hash: signed.hash }
+    update([[p, status]])
+
+    let tx: TransactionResponse
+    try {
+      tx = await signed.send()
+    } catch (error) {
+      interrupted.push([p, status, error])
+      break
+    }
+    sent++
+
+    inFlight.push(
+      settle(provider, status, tx).then(
+        (outcome) => {
+          if (outcome.receipt) mined.push({ payout: p, nonce: status.nonce, receipt: outcome.receipt })
+          else update([[p, outcome.status]])
+        },
+        (error) => void interrupted.push([p, status, error])
+      )
+    )
+    if (inFlight.length >= window) await inFlight.shift()
+  }
+  await Promise.all(inFlight)
+  for (const [p, status, error] of interrupted) {
+    await resolve(p, status, error)
+  }
+
+  update(await verifyBlocks(token, sender, mined))
+
+  return { statuses, sent }
+}
+
+type MinedTransfer = { payout: Payout; nonce: number; receipt: TransactionReceipt }
+
+type Settled = { receipt: TransactionReceipt; status?: undefined } | { receipt?: undefined; status?: PayoutStatus }
+
+// Waits for a sent transfer, looked up by its hash when it was sent by a previous run. A transfer mined as reverted
+// moved nothing, neither a receipt nor a status means the node does not know it. Any other error, e.g. a wait that
+// timed out, is thrown: the transfer may still be mined and is looked up again rather than sent twice.
+async function settle(provider: Provider, { hash }: SentStatus, tx?: TransactionResponse): Promise<Settled> {
+  try {
+    const response = tx ?? (await provider.getTransaction(hash))
+    if (response) return { receipt: await waitForTransaction(response) }
+  } catch (error) {
+    if (error instanceof TransactionError && error.receipt?.status === 0) {
+      return { status: { state: "failed", reason: error.message, hash } }
+    }
+    throw error
+  }
+
+  return { status: undefined }
+}
+
+// Decrypts the balance of the sender around every block holding mined transfers and compares it with the balance the
+// transfers should have left, taking them in nonce order
+async function verifyBlocks(token: ConfidentialERC20, sender: ConfidentialAccount, mined: MinedTransfer[]) {
+  const balanceAt = async (blockTag: number) => {
+    const ct = await token.balanceOf({ blockTag })
+    return ct === BigInt(0) ? BigInt(0) : decryptCtUint(ct, sender.userKey)
+  }
+
+  const blocks = new Map<number, typeof mined>()
+  for (const entry of mined) {
+    blocks.set(entry.receipt.blockNumber, [...(blocks.get(entry.receipt.blockNumber) ?? []), entry])
+  }
+
+  const changes: [Payout, PayoutStatus][] = []
+  for (const [blockNumber, transfers] of [...blocks].sort(([a], [b]) => a - b)) {
+    transfers.sort((a, b) => a.nonce - b.nonce)
+    const before = await balanceAt(blockNumber - 1)
+    const after = await balanceAt(blockNumber)
+
+    let expected = before
+    const outcomes = transfers.map(({ payout: p, nonce, receipt }) => {
+      const covered = expected >= p.amount
+      if (covered) expected -= p.amount
+      const status: PayoutStatus = covered
+        ? { state: "paid", nonce, hash: receipt.hash, blockNumber }
+        : { state: "failed", reason: `balance ${expected} does not cover ${p.amount}`, hash: receipt.hash }
+      return [p, status] as [Payout, PayoutStatus]
+    })
+
+    if (after === expected) {
+      changes.push(...outcomes)
+    } else {
+      const reason = `balance went from ${before} to ${after} in block ${blockNumber}, the transfers leave ${expected}`
+      changes.push(
+        ...transfers.map(
+          ({ payout: p, receipt }) =>
+            [p, { state: "unverified", reason, hash: receipt.hash, blockNumber }] as [Payout, PayoutStatus]
+        )
+      )
+    }
+  }
+
+  return changes
+}
+
+// Runs fn on every item with at most `limit` of them pending, the results are in the order of the items
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error))
@@ -0,0 +1,230 @@
+import fs from "fs"
+import path from "path"
+import { MaxUint256 } from "ethers"
+
+// Mirrors MpcCore.MPC_TYPE and MpcCore.ARGS
+export const MPC_TYPE = { SBOOL_T: 0, SUINT8_T: 1, SUINT16_T: 2, SUINT32_T: 3, SUINT64_T: 4 } as const
+export const ARGS = { BOTH_SECRET: 0, LHS_PUBLIC: 1, RHS_PUBLIC: 2 } as const
+
+export type UintType = "uint8" | "uint16" | "uint32" | "uint64"
+export type ArgsMode = keyof typeof ARGS
+
+// Width of the result: the widest operand, twice that (capped to 64 bits) or a bool
+type ResultWidth = "operands" | "double" | "bool"
+
+export type OpSpec = {
+  result: ResultWidth
+  // expected result of lhs op rhs for a result of `bits` bits
+  reference: (lhs: bigint, rhs: bigint, bits: number) => bigint
+  // operands whose reference result was not checked against the real precompile yet
+  unverified?: (lhs: bigint, rhs: bigint) => boolean
+}
+
+export type ConformanceSpec = {
+  // keyed by the ExtendedOperations function name
+  ops: Record<string, OpSpec>
+  types: UintType[]
+  args: ArgsMode[]
+  edgeValues: (bits: number) => bigint[]
+}
+
+export type ConformanceCase = {
+  op: string
+  lhsType: UintType
+  rhsType: UintType
+  args: ArgsMode
+  resultType: UintType | "bool"
+  lhs: bigint[]
+  rhs: bigint[]
+  expected: bigint[]
+  // per pair, see OpSpec.unverified: reported but not asserted
+  unverified: boolean[]
+}
+
+export type CaseOutcome = ConformanceCase & { actual?: bigint[]; error?: string }
+
+export const uintTypes: UintType[] = ["uint8", "uint16", "uint32", "uint64"]
+const bitsOf: Record<UintType, number> = { uint8: 8, uint16: 16, uint32: 32, uint64: 64 }
+const typeOfBits: Record<number, UintType> = { 8: "uint8", 16: "uint16", 32: "uint32", 64: "uint64" }
+
+export function mpcTypeOf(type: UintType | "bool") {
+  return {
+    bool: MPC_TYPE.SBOOL_T,
+    uint8: MPC_TYPE.SUINT8_T,
+    uint16: MPC_TYPE.SUINT16_T,
+    uint32: MPC_TYPE.SUINT32_T,
+    uint64: MPC_TYPE.SUINT64_T,
+  }[type]
+}
+
+const mask = (bits: number) => (BigInt(1) << BigInt(bits)) - BigInt(1)
+const wrap = (value: bigint, bits: number) => value & mask(bits)
+const bool = (value: boolean) => BigInt(value ? 1 : 0)
+
+const byZero = (_: bigint, b: bigint) => b === BigInt(0)
+const by64OrMore = (_: bigint, b: bigint) => b >= BigInt(64)
+
+// Reference model of the gcEVM semantics: results wrap around to their width. Division and remainder by zero
+// and shifts by 64 bits or more follow the circuits of the emulator, nothing documents them for the precompile:
+// they stay unverified until a devnet run confirms them.
+export const referenceOps: Record<string, OpSpec> = {
+  Add: { result: "operands", reference: (a, b, bits) => wrap(a + b, bits) },
+  Sub: { result: "operands", reference: (a, b, bits) => wrap(a - b, bits) },
+  Mul: { result: "double", reference: (a, b, bits) => wrap(a * b, bits) },
+  Div: { result: "operands", reference: (a, b, bits) => (b === BigInt(0) ? mask(bits) : a / b), unverified: byZero },
+  Rem: { result: "operands", reference: (a, b) => (b === BigInt(0) ? a : a % b), unverified: byZero },
+  And: { result: "operands", reference: (a, b) => a & b },
+  Or: { result: "operands", reference: (a, b) => a | b },
+  Xor: { result: "operands", reference: (a, b) => a ^ b },
+  Shl: {
+    result: "operands",
+    reference: (a, b, bits) => (b >= BigInt(64) ? BigInt(0) : wrap(a << b, bits)),
+    unverified: by64OrMore,
+  },
+  Shr: { result: "operands", reference: (a, b) => (b >= BigInt(64) ? BigInt(0) : a >> b), unverified: by64OrMore },
+  Eq: { result: "bool", reference: (a, b) => bool(a === b) },
+  Ne: { result: "bool", reference: (a, b) => bool(a !== b) },
+  Ge: { result: "bool", reference: (a, b) => bool(a >= b) },
+  Gt: { result: "bool", reference: (a, b) => bool(a > b) },
+  Le: { result: "bool", reference: (a, b) => bool(a <= b) },
+  Lt: { result: "bool", reference: (a, b) => bool(a < b) },
+  Min: { result: "operands", reference: (a, b) => (a < b ? a : b) },
+  Max: { result: "operands", reference: (a, b) => (a > b ? a : b) },
+}
+
+export function edgeValues(bits: number) {
+  return [BigInt(0), BigInt(1), mask(bits) - BigInt(1), mask(bits)]
+}
+
+export const defaultSpec: ConformanceSpec = {
+  ops: referenceOps,
+  types: uintTypes,
+  args: ["BOTH_SECRET", "LHS_PUBLIC", "RHS_PUBLIC"],
+  edgeValues,
+}
+
+// CONFORMANCE_OPS=Add,Mul and CONFORMANCE_TYPES=uint8,uint64 narrow the default spec, e.g. for a quick devnet run
+export function specFromEnv(spec = defaultSpec): ConformanceSpec {
+  const ops = process.env.CONFORMANCE_OPS?.split(",")
+  const types = process.env.CONFORMANCE_TYPES?.split(",")
+
+  return {
+    ...spec,
+    ops: ops ? Object.fromEntries(Object.entries(spec.ops).filter(([op]) => ops.includes(op))) : spec.ops,
+    types: types ? spec.types.filter((type) => types.includes(type)) : spec.types,
+  }
+}
+
+// One case per operation x operand types x argument mode, covering every pair of edge values of the two types.
+// Like MpcCore, a public operand always has the width of the secret one, so mixed widths are only BOTH_SECRET.
+export function generateCases(spec: ConformanceSpec) {
+  const cases: ConformanceCase[] = []
+  for (const [op, { result, reference, unverified }] of Object.entries(spec.ops)) {
+    for (const lhsType of spec.types) {
+      for (const rhsType of spec.types) {
+        for (const args of spec.args) {
+          if (args !== "BOTH_SECRET" && lhsType !== rhsType) continue
+
+          const operandBits = Math.max(bitsOf[lhsType], bitsOf[rhsType])
+          const resultBits = result === "double" ? Math.min(64, operandBits * 2) : operandBits
+          const pairs = spec
+            .edgeValues(bitsOf[lhsType])
+            .flatMap((lhs) => spec.edgeValues(bitsOf[rhsType]).map((rhs) => [lhs, rhs]))
+
+          cases.push({
+            op,
+            lhsType,
+            rhsType,
+            args,
+            resultType: result === "bool" ? "bool" : typeOfBits[resultBits],
+            lhs: pairs.map(([lhs]) => lhs),
+            rhs: pairs.map(([, rhs]) => rhs),
+            expected: pairs.map(([lhs, rhs]) => reference(lhs, rhs, resultBits)),
+            unverified: pairs.map(([lhs, rhs]) => unverified?.(lhs, rhs) ?? false),
+          })
+        }
+      }
+    }
+  }
+
+  return cases
+}
+
+export function caseTitle({ op, lhsType, rhsType, args }: ConformanceCase) {
+  return `${op}(${lhsType}, ${rhsType}, ${args})`
+}
+
+// The values asserted by the suite, the unverified pairs left out
+export function verifiedValues({ unverified }: ConformanceCase, values: bigint[]) {
+  return values.filter((_, i) => !unverified[i])
+}
+
+function caseStatus(outcome: CaseOutcome) {
+  const { expected, actual, error, unverified } = outcome
+  if (error !== undefined || actual === undefined) return "error"
+  if (!expected.every((value, i) => unverified[i] || value === actual[i])) return "fail"
+  return unverified.some((isUnverified) => isUnverified) ? "unverified" : "pass"
+}
+
+// Writes <dir>/precompile-conformance.json with every mismatch and <dir>/precompile-conformance.md with the
+// coverage matrix: one row per operation, one column per operand types, one mark per argument mode
+export function writeConformanceReport(outcomes: CaseOutcome[], dir = "reports") {
+  fs.mkdirSync(dir, { recursive: true })
+
+  const json = outcomes.map((outcome) => ({
+    case: caseTitle(outcome),
+    status: caseStatus(outcome),
+    resultType: outcome.resultType,
+    ...(outcome.error !== undefined ? { error: outcome.error } : {}),
+    mismatches: pairsOf(outcome).filter(({ expected, actual }, i) => !outcome.unverified[i] && expected !== actual),
+    // what the network returned where the reference model is a guess, to check by hand
+    unverified: pairsOf(outcome).filter((_, i) => outcome.unverified[i]),
+  }))
+  const jsonPath = path.join(dir, "precompile-conformance.json")
+  fs.writeFileSync(jsonPath, JSON.stringify(json, null, 2))
+
+  const short = (type: UintType) => type.replace("uint", "")
+  const columns = uintTypes.flatMap((lhsType) => uintTypes.map((rhsType) => [lhsType, rhsType] as const))
+  const marks = { pass: "✓", unverified: "?", fail: "✗", error: "!" }
+  const rows = [...new Set(outcomes.map(({ op }) => op))].map((op) => {
+    const cells = columns.map(([lhsType, rhsType]) => {
+      const cell = outcomes
+        .filter((outcome) => outcome.op === op && outcome.lhsType === lhsType && outcome.rhsType === rhsType)
+        .map((outcome) => `${outcome.args[0]}${marks[caseStatus(outcome)]}`)
+      return cell.length > 0 ? cell.join(" ") : "–"
+    })
+    return `| ${op} | ${cells.join(" | ")} |`
+  })
+
+  const count = (status: string) => outcomes.filter((outcome) => caseStatus(outcome) === status).length
+  const markdown = [
+    "# Precompile conformance",
+    "",
+    `${outcomes.length} cases: ${count("pass")} passed, ${count("unverified")} passed with unverified values, ` +
+      `${count("fail")} failed, ${count("error")} errored.`,
+    "",
+    "Columns are lhs/rhs widths. B = BOTH_SECRET, L = LHS_PUBLIC, R = RHS_PUBLIC; ✓ matches the reference model,",
+    "? matches it except on the values the model has not verified against the precompile (division and remainder",
+    "by zero, shifts by 64 or more, listed in precompile-conformance.json), ✗ differs from it, ! the transaction",
+    "failed, – not run.",
+    "",
+    `| op | ${columns.map(([lhs, rhs]) => `${short(lhs)}/${short(rhs)}`).join(" | ")} |`,
+    `| --- | ${columns.map(() => "---").join(" | ")} |`,
+    ...rows,
+    "",
+  ].join("\n")
+  const markdownPath = path.join(dir, "precompile-conformance.md")
+  fs.writeFileSync(markdownPath, markdown)
+
+  return { jsonPath, markdownPath }
+}
+
+function pairsOf({ lhs, rhs, expected, actual = [] }: CaseOutcome) {
+  return actual.map((value, i) => ({
+    lhs: lhs[i].toString(),
+    rhs: rhs[i].toString(),
+    expected: expected[i].toString(),
+    // PrecompilesConformanceTestsContract stores MaxUint256 when the precompile call reverted
+    actual: value === MaxUint256 ? "reverted" : value.toString(),
+  }))
+}
@@ -0,0 +1,78 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types"
+import { Wallet } from "ethers"
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import type { Keystore } from "./keystore"
+import { decryptUint } from "./crypto"
+import { builtinNetworks, usesMpcEmulator } from "./networks"
+
+// Same value as UserKeyProbe.PROBE
+const PROBE = BigInt(0xc071)
+
+// Accounts are kept per chain: a user key only decrypts on the chain the account was onboarded on, while a network
+// name can point to another chain from one config to the next
+export function profileName(chainId: bigint | number) {
+  return `chain-${chainId}`
+}
+
+// The keystore profile of the chain hre is connected to. The accounts from .env are imported into it the first time.
+export async function openProfile(hre: HardhatRuntimeEnvironment, keystore: Keystore) {
+  const { chainId } = await hre.ethers.provider.getNetwork()
+  const profile = profileName(chainId)
+
+  if ((await keystore.load(profile)).length === 0) {
+    await keystore.import(envAccounts(profile, chainId))
+  }
+
+  return profile
+}
+
+// SIGNING_KEYS_<chainId>/USER_KEYS_<chainId>. Earlier versions only ran on devnet, their SIGNING_KEYS/USER_KEYS pair
+// is only read for it.
+function envAccounts(profile: string, chainId: bigint) {
+  const legacy = chainId === BigInt(builtinNetworks.devnet.chainId)
+  const split = (value?: string) => (value ? value.split(",") : [])
+  const pks = split(process.env[`SIGNING_KEYS_${chainId}`] ?? (legacy ? process.env.SIGNING_KEYS : undefined))
+  const userKeys = split(process.env[`USER_KEYS_${chainId}`] ?? (legacy ? process.env.USER_KEYS : undefined))
+
+  return pks.map((pk, i) => ({
+    address: new Wallet(pk).address,
+    privateKey: pk,
+    network: profile,
+    ...(userKeys.length === pks.length ? { userKey: userKeys[i] } : {}),
+  }))
+}
+
+const checked = new Map<string, Promise<void>>()
+
+// Refuses a user key the network does not hold for the account on this chain, e.g. one onboarded on another chain or
+// rotated since. The check is one eth_call per account and runs once per process. The MPC emulator derives user keys
+// from the address, there is nothing to check.
+export async function checkUserKey(hre: HardhatRuntimeEnvironment, account: ConfidentialAccount) {
+  if (usesMpcEmulator(hre.network)) return
+
+  const key = `${hre.network.name}:${account.wallet.address}:${account.userKey}`
+  if (!checked.has(key)) {
+    checked.set(key, probeUserKey(hre, account))
+  }
+
+  await checked.get(key)
+}
+
+// The check itself, run by account-profiles.test.ts against the network it is connected to
+export async function probeUserKey(hre: HardhatRuntimeEnvironment, account: ConfidentialAccount) {
+  const { bytecode } = await hre.artifacts.readArtifact("UserKeyProbe")
+  const address = account.wallet.address
+  const { chainId } = await hre.ethers.provider.getNetwork()
+
+  // 0x00 followed by the 32 bytes of the ciphertext
+  const code = await hre.ethers.provider.call({ from: address, data: bytecode })
+  if (code.length !== 2 + 2 * 33) {
+    throw new Error(`UserKeyProbe returned ${code} on chain ${chainId}, cannot check the user key of ${address}`)
+  }
+  if (decryptUint(BigInt(`0x${code.slice(4)}`), account.userKey) !== PROBE) {
+    throw new Error(
+      `The user key stored for ${address} was not onboarded on chain ${chainId} (${hre.network.name}). ` +
+        `Run \`yarn hardhat coti:onboard --account ${address} --force --network ${hre.network.name}\` to onboard it again.`
+    )
+  }
+}
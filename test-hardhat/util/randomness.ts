@@ -0,0 +1,173 @@
+import fs from "fs"
+import path from "path"
+
+export type RandomType = "bool" | "uint8" | "uint16" | "uint32" | "uint64"
+
+export type RandomnessConfig = {
+  type: RandomType
+  // set for randBoundedBits*, the values then have numBits bits instead of the width of the type
+  numBits?: number
+}
+
+export type ChiSquareResult = { statistic: number; degreesOfFreedom: number; pValue: number }
+export type RunsResult = { runs: number; expected: number; z: number; pValue: number }
+
+export type RandomnessOutcome = RandomnessConfig & {
+  samples: number
+  max: string
+  outOfBound: number
+  chiSquare: ChiSquareResult
+  runs: RunsResult
+  passed: boolean
+}
+
+export const randomTypes: RandomType[] = ["bool", "uint8", "uint16", "uint32", "uint64"]
+export const bitsOf: Record<RandomType, number> = { bool: 1, uint8: 8, uint16: 16, uint32: 32, uint64: 64 }
+
+// RANDOMNESS_SAMPLES values per configuration and RANDOMNESS_ALPHA, the chance that a truly random source fails the
+// whole suite. It is split evenly between its `tests` statistical tests (Bonferroni), alpha is the p-value under which
+// one of them fails.
+export function thresholdsFromEnv(tests: number) {
+  const suiteAlpha = Number(process.env.RANDOMNESS_ALPHA ?? 0.001)
+  return { samples: Number(process.env.RANDOMNESS_SAMPLES ?? 256), alpha: suiteAlpha / tests }
+}
+
+// Every type unbounded, and the bounded variants of the uint types for a few bit counts
+export function randomnessConfigs(boundedBits = [1, 4, 7]): RandomnessConfig[] {
+  return [
+    ...randomTypes.map((type) => ({ type })),
+    ...randomTypes
+      .filter((type) => type !== "bool")
+      .flatMap((type) => boundedBits.map((numBits) => ({ type, numBits }))),
+  ]
+}
+
+export function configTitle({ type, numBits }: RandomnessConfig) {
+  return numBits === undefined ? `rand(${type})` : `randBoundedBits(${type}, ${numBits})`
+}
+
+export function sampleBits({ type, numBits }: RandomnessConfig) {
+  return numBits ?? bitsOf[type]
+}
+
+// Pearson's chi-square goodness of fit against the uniform distribution. Samples are put in up to 16 bins by their
+// top bits, so that every bin expects enough values even for 64-bit samples.
+export function chiSquareTest(samples: bigint[], bits: number): ChiSquareResult {
+  const binBits = Math.min(4, bits)
+  const bins = 1 << binBits
+  const counts = new Array<number>(bins).fill(0)
+  for (const sample of samples) {
+    counts[Number(sample >> BigInt(bits - binBits))]++
+  }
+
+  const expected = samples.length / bins
+  const statistic = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0)
+  const degreesOfFreedom = bins - 1
+  return { statistic, degreesOfFreedom, pValue: upperGammaRegularized(degreesOfFreedom / 2, statistic / 2) }
+}
+
+// Wald-Wolfowitz runs test on the sequence of samples above and below the middle of the range, catching values
+// that depend on the previous one even when their distribution is uniform
+export function runsTest(samples: bigint[], bits: number): RunsResult {
+  const middle = BigInt(1) << BigInt(bits - 1)
+  const high = samples.map((sample) => sample >= middle)
+  const n1 = high.filter(Boolean).length
+  const n2 = high.length - n1
+  const n = n1 + n2
+  const runs = high.filter((value, i) => i === 0 || value !== high[i - 1]).length
+
+  if (n1 === 0 || n2 === 0) {
+    return { runs, expected: NaN, z: Infinity, pValue: 0 }
+  }
+
+  const expected = (2 * n1 * n2) / n + 1
+  const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1))
+  const z = (runs - expected) / Math.sqrt(variance)
+  return { runs, expected, z, pValue: 2 * (1 - normalCdf(Math.abs(z))) }
+}
+
+export function evaluateSamples(config: RandomnessConfig, samples: bigint[], alpha: number): RandomnessOutcome {
+  const bits = sampleBits(config)
+  const bound = (BigInt(1) << BigInt(bits)) - BigInt(1)
+  const chiSquare = chiSquareTest(samples, bits)
+  const runs = runsTest(samples, bits)
+  const outOfBound = samples.filter((sample) => sample > bound).length
+
+  return {
+    ...config,
+    samples: samples.length,
+    max: samples.reduce((max, sample) => (sample > max ? sample : max), BigInt(0)).toString(),
+    outOfBound,
+    chiSquare,
+    runs,
+    passed: outOfBound === 0 && chiSquare.pValue >= alpha && runs.pValue >= alpha,
+  }
+}
+
+export function writeRandomnessReport(outcomes: RandomnessOutcome[], alpha: number, dir = "reports") {
+  fs.mkdirSync(dir, { recursive: true })
+
+  const reportPath = path.join(dir, "randomness.json")
+  const report = outcomes.map((outcome) => ({ function: configTitle(outcome), ...outcome }))
+  fs.writeFileSync(reportPath, JSON.stringify({ alpha, outcomes: report }, null, 2))
+
+  return reportPath
+}
+
+// Standard normal CDF from the Abramowitz and Stegun 7.1.26 approximation of erf, accurate to 1.5e-7
+function normalCdf(x: number) {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(x * x) / 2)
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+// Q(a, x) = Γ(a, x) / Γ(a), the chi-square survival function being Q(k / 2, x / 2). Uses the series of P(a, x) below
+// a + 1 and the continued fraction of Q(a, x) above, as in Numerical Recipes.
+function upperGammaRegularized(a: number, x: number) {
+  if (x <= 0) return 1
+  const logPrefix = a * Math.log(x) - x - logGamma(a)
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < 1000 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n)
+      sum += term
+    }
+    return 1 - sum * Math.exp(logPrefix)
+  }
+
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    d = Math.abs(d) < tiny ? tiny : d
+    c = b + an / c
+    c = Math.abs(c) < tiny ? tiny : c
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-15) break
+  }
+  return h * Math.exp(logPrefix)
+}
+
+// Lanczos approximation of ln Γ(x) for x > 0
+function logGamma(x: number) {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2,
+    -0.5395239384953e-5,
+  ]
+  let series = 1.000000000190015
+  coefficients.forEach((coefficient, i) => {
+    series += coefficient / (x + i + 1)
+  })
+  const t = x + 5.5
+  return (x + 0.5) * Math.log(t) - t + Math.log((2.5066282746310005 * series) / x)
+}
@@ -0,0 +1,308 @@
+import {
+  type BaseContract,
+  type BaseContractMethod,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+  type ErrorDescription,
+  type Overrides,
+  type Provider,
+  type Signer,
+  type TransactionReceipt,
+  type TransactionResponse,
+  ErrorFragment,
+  Interface,
+  Transaction,
+  isCallException,
+  isError,
+} from "ethers"
+import type { ContractMethodArgs, StateMutability, TypedContractMethod } from "../../typechain-types/common"
+
+// added on top of the estimate, the MPC precompile uses a little more gas from one call to the next
+const gasMargin = 0.2
+// how many times a nonce or underpriced error is sent again
+const retries = 3
+
+// A revert decoded with the errors of every compiled contract, e.g. TooLate(1700000000) raised by
+// ConfidentialAuction or ERC721InsufficientApproval raised by a token the contract called
+export type DecodedRevert = { name: string; signature: string; args: unknown[] }
+
+export class TransactionError extends Error {
+  constructor(
+    // Contract.function(types) that was sent
+    readonly method: string,
+    // estimate: the node refused to estimate it. send: the node rejected it. mined: it was mined and failed. wait:
+    // waiting for it failed without a receipt, e.g. on a timeout, it may still be mined.
+    readonly stage: "estimate" | "send" | "mined" | "wait",
+    readonly revert?: DecodedRevert,
+    // raw revert data, hardhat-chai-matchers reads it to match revertedWith and revertedWithCustomError
+    readonly data?: string,
+    readonly receipt?: TransactionReceipt,
+    readonly cause?: unknown
+  ) {
+    super(`${method} ${describeFailure(stage, revert, data, cause)}`)
+  }
+}
+
+// ethers binds every method to its contract without typing it
+type BoundMethod = BaseContractMethod & { _contract: BaseContract }
+
+export type PendingTransaction = { hash: string; wait(): Promise<ContractTransactionReceipt> }
+
+// Sends a contract call the way the suites need it: the gas limit is estimated with a margin unless the overrides
+// set one, nonce and underpriced errors are retried, and a call that reverts, either when estimated or once mined,
+// throws a TransactionError telling which error it raised. Returns the receipt of the successful transaction.
+export async function sendTransaction<A extends unknown[], R, S extends Exclude<StateMutability, "view">>(
+  method: TypedContractMethod<A, R, S>,
+  ...args: ContractMethodArgs<A, S>
+) {
+  return (await submitTransaction(method, ...args)).wait()
+}
+
+// Like sendTransaction, but returns once the transaction is sent so that several can be in flight together. A nonce
+// set in the overrides is kept, the transaction is then not sent again on a nonce error.
+export async function submitTransaction<A extends unknown[], R, S extends Exclude<StateMutability, "view">>(
+  method: TypedContractMethod<A, R, S>,
+  ...args: ContractMethodArgs<A, S>
+): Promise<PendingTransaction> {
+  const base = method as unknown as BoundMethod
+  const contract = base._contract
+  const provider = contract.runner!.provider!
+  const fragment = base.getFragment(...args)
+  const name = await callName(provider, await contract.getAddress(), fragment.selector)
+
+  const params = args.slice(0, fragment.inputs.length)
+  const overrides: Overrides = args.length > fragment.inputs.length ? { ...(args[args.length - 1] as Overrides) } : {}
+  overrides.gasLimit ??= await gasLimit(base, name, params, overrides)
+
+  for (let attempt = 0; ; attempt++) {
+    let response: ContractTransactionResponse
+    try {
+      response = await base.send(...params, overrides)
+    } catch (error) {
+      if (attempt < retries && overrides.nonce == null && isNonceError(error)) {
+        await delay(500 * (attempt + 1))
+        continue
+      }
+      if (attempt < retries && isUnderpriced(error)) {
+        Object.assign(overrides, await bumpedFees(provider, attempt + 1))
+        continue
+      }
+      throw await toTransactionError(name, "send", error)
+    }
+
+    return { hash: response.hash, wait: () => waitForTransaction(response, name) }
+  }
+}
+
+// A transaction signed but not sent yet, its hash and nonce are known before the node sees it
+export type SignedTransaction = { hash: string; nonce: number; send(): Promise<TransactionResponse> }
+
+// Like submitTransaction, but send() broadcasts the transaction signed here, so that it can be recorded first. The
+// contract must be connected to a Wallet, and nothing is retried: sending it again with other fees or another nonce
+// would change its hash.
+export async function signTransaction<A extends unknown[], R, S extends Exclude<StateMutability, "view">>(
+  method: TypedContractMethod<A, R, S>,
+  ...args: ContractMethodArgs<A, S>
+): Promise<SignedTransaction> {
+  const base = method as unknown as BoundMethod
+  const contract = base._contract
+  const signer = contract.runner as Signer
+  const fragment = base.getFragment(...args)
+  const name = await callName(signer.provider!, await contract.getAddress(), fragment.selector)
+
+  const params = args.slice(0, fragment.inputs.length)
+  const overrides: Overrides = args.length > fragment.inputs.length ? { ...(args[args.length - 1] as Overrides) } : {}
+  overrides.gasLimit ??= await gasLimit(base, name, params, overrides)
+
+  const populated = await signer.populateTransaction(await base.populateTransaction(...params, overrides))
+  const signed = await signer.signTransaction(populated)
+
+  return {
+    hash: Transaction.from(signed).hash!,
+    nonce: populated.nonce!,
+    send: async () => {
+      try {
+        return await signer.provider!.broadcastTransaction(signed)
+      } catch (error) {
+        throw await toTransactionError(name, "send", error)
+      }
+    },
+  }
+}
+
+// Waits for a transaction however it was sent. One mined as failed throws a TransactionError, with the revert data
+// recovered by replaying it. Any other error, e.g. a timeout or a dropped connection, throws one at the wait stage.
+export async function waitForTransaction<T extends TransactionResponse>(response: T, name?: string) {
+  const provider = response.provider
+  try {
+    return (await response.wait()) as NonNullable<Awaited<ReturnType<T["wait"]>>>
+  } catch (error) {
+    name ??= await callName(provider, response.to, response.data)
+    if (!isError(error, "CALL_EXCEPTION") || !error.receipt) throw await toTransactionError(name, "wait", error)
+
+    const data = await replayRevertData(provider, response, error.receipt)
+    throw new TransactionError(name, "mined", await decodeRevert(data), data, error.receipt, error)
+  }
+}
+
+// Resolves to the TransactionError the transaction failed with, undefined when it went through. Other errors are
+// thrown again.
+export async function transactionError(tx: Promise<unknown>) {
+  try {
+    await tx
+  } catch (error) {
+    if (error instanceof TransactionError) return error
+    throw error
+  }
+  return undefined
+}
+
+// The estimate with the margin, capped at the block gas limit. Estimating runs the call some twenty times, which the
+// MPC emulator makes too slow and too heavy for the in-process node, so there every call gets the whole block.
+async function gasLimit(method: BoundMethod, name: string, params: unknown[], overrides: Overrides) {
+  const block = (await method._contract.runner!.provider!.getBlock("latest"))!
+  const { isEmulatedNetwork } = await import("./mpc-emulator")
+  if (isEmulatedNetwork()) return block.gasLimit
+
+  let estimate
+  try {
+    estimate = await method.estimateGas(...params, overrides)
+  } catch (error) {
+    throw await toTransactionError(name, "estimate", error)
+  }
+
+  const limit = (estimate * BigInt(Math.round((1 + gasMargin) * 100))) / BigInt(100)
+  return limit > block.gasLimit ? block.gasLimit : limit
+}
+
+// Decodes revert data with Error(string), Panic(uint256) and the custom errors of every compiled contract
+export async function decodeRevert(data?: string): Promise<DecodedRevert | undefined> {
+  if (!data || data === "0x") return undefined
+
+  const { errors } = await compiled()
+  let description: ErrorDescription | null
+  try {
+    description = errors.parseError(data)
+  } catch {
+    // a known selector whose arguments do not decode, the data is then reported raw like an unknown error
+    return undefined
+  }
+  if (!description) return undefined
+
+  return { name: description.name, signature: description.signature, args: [...description.args] }
+}
+
+type Compiled = { errors: Interface; contracts: Map<string, { contractName: string; abi: Interface }> }
+let compiledArtifacts: Promise<Compiled> | undefined
+
+// Error fragments of every artifact, and contracts by deployed code. Hardhat is imported on first use, the
+// tasks loaded with the config send transactions too.
+function compiled() {
+  compiledArtifacts ??= (async () => {
+    const { artifacts } = await import("hardhat")
+    const fragments = new Map<string, ErrorFragment>()
+    const contracts: Compiled["contracts"] = new Map()
+    for (const name of await artifacts.getAllFullyQualifiedNames()) {
+      const { contractName, abi, deployedBytecode } = await artifacts.readArtifact(name)
+      contracts.set(deployedBytecode, { contractName, abi: new Interface(abi) })
+      for (const entry of abi) {
+        if (entry.type !== "error") continue
+        const fragment = ErrorFragment.from(entry)
+        fragments.set(fragment.selector, fragment)
+      }
+    }
+    // ethers adds Error(string) and Panic(uint256) to every interface
+    return { errors: new Interface([...fragments.values()]), contracts }
+  })()
+  return compiledArtifacts
+}
+
+const deployed = new Map<string, Promise<string>>()
+
+// Contract.function(types) called by the data, from the artifact whose deployed code is at the address. The address
+// and the selector stand in for what is not found. The code is read again every time on the in-process network, where
+// reverting to a snapshot lets another contract be deployed at the same address.
+async function callName(provider: Provider, address: string | null, data: string) {
+  if (!address) return "deployment"
+
+  const { isEmulatedNetwork } = await import("./mpc-emulator")
+  if (isEmulatedNetwork() || !deployed.has(address)) deployed.set(address, provider.getCode(address))
+  const contract = (await compiled()).contracts.get(await deployed.get(address)!)
+  const fragment = contract?.abi.getFunction(data.slice(0, 10))
+  return `${contract?.contractName ?? address}.${fragment?.format("sighash") ?? data.slice(0, 10)}`
+}
+
+async function toTransactionError(method: string, stage: TransactionError["stage"], error: unknown) {
+  const data = revertDataOf(error)
+  return new TransactionError(method, stage, await decodeRevert(data), data, undefined, error)
+}
+
+// The fields of the errors of ethers and of the providers that revert data can be nested in
+type NestedError = {
+  data?: string | { data?: unknown }
+  error?: NestedError
+  info?: { error?: NestedError }
+  cause?: NestedError
+}
+
+// Revert data of an error thrown by ethers or by the provider, some providers nest it in the error they return
+export function revertDataOf(error: unknown): string | undefined {
+  if (isCallException(error)) return error.data ?? undefined
+
+  let current = error as NestedError | undefined
+  for (; current; current = current.error ?? current.info?.error ?? current.cause) {
+    const { data } = current
+    if (typeof data === "string" && data.startsWith("0x")) return data
+    if (typeof data === "object" && typeof data.data === "string") return data.data
+  }
+  return undefined
+}
+
+// The node does not keep the revert data of a mined transaction, so the call is replayed on the state it was sent on:
+// the previous block, which is exact for the first transaction of a block and always so with automine
+async function replayRevertData(provider: Provider, tx: TransactionResponse, receipt: TransactionReceipt) {
+  try {
+    await provider.call({ ...tx, to: tx.to ?? undefined, blockTag: receipt.blockNumber - 1 })
+  } catch (error) {
+    return revertDataOf(error)
+  }
+  return undefined
+}
+
+function describeFailure(stage: TransactionError["stage"], revert?: DecodedRevert, data?: string, cause?: unknown) {
+  const what = {
+    estimate: "would revert",
+    send: "could not be sent",
+    mined: "reverted",
+    wait: "was sent but could not be waited for",
+  }[stage]
+  if (revert?.name === "Error") return `${what} with reason "${revert.args[0]}"`
+  if (revert?.name === "Panic") return `${what} with panic code 0x${(revert.args[0] as bigint).toString(16)}`
+  if (revert) return `${what} with ${revert.name}(${revert.args.map(String).join(", ")})`
+  if (data && data !== "0x") return `${what} with unknown error data ${data}`
+  if ((stage === "send" || stage === "wait") && cause instanceof Error) return `${what}: ${cause.message}`
+  return `${what} without a reason`
+}
+
+function isNonceError(error: unknown) {
+  return isError(error, "NONCE_EXPIRED") || /nonce too low|nonce has already been used/i.test(messageOf(error))
+}
+
+function isUnderpriced(error: unknown) {
+  return isError(error, "REPLACEMENT_UNDERPRICED") || /underpriced/i.test(messageOf(error))
+}
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// Raises the fees of the network by 20% more at every attempt
+async function bumpedFees(provider: Provider, attempt: number): Promise<Overrides> {
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = await provider.getFeeData()
+  const bump = (value: bigint) => (value * BigInt(100 + 20 * attempt)) / BigInt(100)
+
+  if (maxFeePerGas !== null && maxPriorityFeePerGas !== null) {
+    return { maxFeePerGas: bump(maxFeePerGas), maxPriorityFeePerGas: bump(maxPriorityFeePerGas) }
+  }
+  return gasPrice !== null ? { gasPrice: bump(gasPrice) } : {}
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
@@ -0,0 +1,145 @@
+import type { ConfidentialAccount } from "@coti-io/coti-sdk-typescript"
+import { decryptUint } from "./crypto"
+import { prepareItUint64 } from "./mpc-values"
+
+// Values longer than one ctUint64 are stored as a sequence of 64-bit words: a header word followed by the payload
+// packed big-endian, 8 bytes per word, the last one padded with zeros.
+//
+//   header: version (8 bits) | type (8 bits) | payload length in bytes (32 bits) | reserved (16 bits)
+//
+// Strings and JSON are UTF-8, a date is its milliseconds since the epoch as a signed 64-bit integer.
+export const CODEC_VERSION = 1
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
+export type CodecValue =
+  | { type: "bytes"; value: Uint8Array }
+  | { type: "string"; value: string }
+  | { type: "date"; value: Date }
+  | { type: "json"; value: JsonValue }
+export type CodecType = CodecValue["type"]
+
+const typeIds: Record<CodecType, number> = { bytes: 0, string: 1, date: 2, json: 3 }
+const wordBytes = 8
+
+// Values are bounded by the length field, contracts will usually cap the number of words much lower
+const maxLength = 0xffffffff
+
+export function encodeWords(value: CodecValue): bigint[] {
+  const payload = encodePayload(value)
+  if (payload.length > maxLength) {
+    throw new Error(`Cannot encode ${payload.length} bytes, the header allows at most ${maxLength}`)
+  }
+
+  const header =
+    (BigInt(CODEC_VERSION) << BigInt(56)) |
+    (BigInt(typeIds[value.type]) << BigInt(48)) |
+    (BigInt(payload.length) << BigInt(16))
+
+  const words = [header]
+  for (let offset = 0; offset < payload.length; offset += wordBytes) {
+    const chunk = Buffer.alloc(wordBytes)
+    chunk.set(payload.subarray(offset, offset + wordBytes))
+    words.push(chunk.readBigUInt64BE())
+  }
+
+  return words
+}
+
+export function decodeWords(words: bigint[]): CodecValue {
+  if (words.length === 0) {
+    throw new Error("Cannot decode an empty word sequence, the header is missing")
+  }
+
+  const [header, ...data] = words
+  const version = Number(header >> BigInt(56))
+  const typeId = Number((header >> BigInt(48)) & BigInt(0xff))
+  const length = Number((header >> BigInt(16)) & BigInt(maxLength))
+  if (version !== CODEC_VERSION) {
+    throw new Error(`Unsupported codec version ${version}, expected ${CODEC_VERSION}`)
+  }
+
+  const type = (Object.keys(typeIds) as CodecType[]).find((key) => typeIds[key] === typeId)
+  if (type === undefined) {
+    throw new Error(`Unknown codec type ${typeId}`)
+  }
+  if (data.length !== wordCount(length)) {
+    throw new Error(`Header announces ${length} bytes in ${wordCount(length)} words, got ${data.length} words`)
+  }
+
+  const payload = Buffer.alloc(data.length * wordBytes)
+  data.forEach((word, i) => payload.writeBigUInt64BE(word, i * wordBytes))
+
+  return decodePayload(type, payload.subarray(0, length))
+}
+
+// Number of words needed for a value, header included, e.g. to check it fits a contract limit before encrypting
+export function encodedWordCount(value: CodecValue) {
+  return 1 + wordCount(encodePayload(value).length)
+}
+
+// Encrypts every word for the given contract function, in order. Each one gets its own signature, so a contract
+// taking ctUint64[] and bytes[] validates them one by one.
+export async function encryptWords(
+  value: CodecValue,
+  sender: ConfidentialAccount,
+  contractAddress: string,
+  functionSelector: string
+) {
+  const encrypted = []
+  for (const word of encodeWords(value)) {
+    encrypted.push(await prepareItUint64(word, sender, contractAddress, functionSelector))
+  }
+
+  return { ctInts: encrypted.map(({ ctInt }) => ctInt), signatures: encrypted.map(({ signature }) => signature) }
+}
+
+// Reassembles a value from the words re-encrypted for the user. A ciphertext of 0 is an unset word.
+export function decryptWords(cts: bigint[], userKey: string) {
+  return decodeWords(cts.map((ct) => (ct === BigInt(0) ? BigInt(0) : decryptUint(ct, userKey))))
+}
+
+// Name of the slot holding word i of a value stored under one key per word, e.g. ConfidentialIdentityRegistry
+// identifiers: "country" holds the header, "country[1]" the first payload word and so on
+export function wordKey(key: string, i: number) {
+  return i === 0 ? key : `${key}[${i}]`
+}
+
+function wordCount(length: number) {
+  return Math.ceil(length / wordBytes)
+}
+
+function encodePayload(value: CodecValue): Buffer {
+  switch (value.type) {
+    case "bytes":
+      return Buffer.from(value.value)
+    case "string":
+      return Buffer.from(value.value, "utf8")
+    case "date": {
+      const time = value.value.getTime()
+      if (Number.isNaN(time)) {
+        throw new Error("Cannot encode an invalid date")
+      }
+      const payload = Buffer.alloc(wordBytes)
+      payload.writeBigInt64BE(BigInt(time))
+      return payload
+    }
+    case "json":
+      return Buffer.from(JSON.stringify(value.value), "utf8")
+  }
+}
+
+function decodePayload(type: CodecType, payload: Buffer): CodecValue {
+  switch (type) {
+    case "bytes":
+      return { type, value: new Uint8Array(payload) }
+    case "string":
+      return { type, value: payload.toString("utf8") }
+    case "date":
+      if (payload.length !== wordBytes) {
+        throw new Error(`A date takes ${wordBytes} bytes, got ${payload.length}`)
+      }
+      return { type, value: new Date(Number(payload.readBigInt64BE())) }
+    case "json":
+      return { type, value: JSON.parse(payload.toString("utf8")) }
+  }
+}
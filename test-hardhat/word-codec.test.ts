@@ -0,0 +1,46 @@
+import { expect } from "chai"
+import { type CodecValue, decodeWords, encodeWords, encodedWordCount } from "./util/word-codec"
+
+const values: CodecValue[] = [
+  { type: "string", value: "" },
+  { type: "string", value: "FR" },
+  { type: "string", value: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi/metadata.json" },
+  { type: "string", value: "Zürich, 東京 🚀" },
+  { type: "date", value: new Date("1990-04-12T00:00:00Z") },
+  { type: "date", value: new Date("1901-01-01T00:00:00Z") },
+  { type: "json", value: { country: "FR", residency: ["FR", "DE"], verified: true, score: 0.5 } },
+  { type: "bytes", value: new Uint8Array([0, 1, 2, 253, 254, 255, 0, 0, 7]) },
+]
+
+describe("Word codec", function () {
+  for (const value of values) {
+    it(`Round-trips the ${value.type} ${JSON.stringify(value.value)}`, function () {
+      const words = encodeWords(value)
+
+      expect(words.length).to.equal(encodedWordCount(value))
+      for (const word of words) {
+        expect(word < BigInt(1) << BigInt(64)).to.equal(true, `word ${word} does not fit a ctUint64`)
+      }
+      expect(decodeWords(words)).to.deep.equal(value)
+    })
+  }
+
+  it("Packs 8 bytes per word after the header", function () {
+    const words = encodeWords({ type: "string", value: "abcdefghi" })
+
+    expect(words).to.deep.equal([
+      (BigInt(1) << BigInt(56)) | (BigInt(1) << BigInt(48)) | (BigInt(9) << BigInt(16)),
+      BigInt("0x6162636465666768"),
+      BigInt("0x6900000000000000"),
+    ])
+  })
+
+  it("Rejects another version, an unknown type and a truncated payload", function () {
+    const [header, ...data] = encodeWords({ type: "string", value: "abcdefghi" })
+
+    expect(() => decodeWords([header + (BigInt(1) << BigInt(56)), ...data])).to.throw("Unsupported codec version 2")
+    expect(() => decodeWords([header | (BigInt(0xff) << BigInt(48)), ...data])).to.throw("Unknown codec type 255")
+    expect(() => decodeWords([header, data[0]])).to.throw("Header announces 9 bytes in 2 words, got 1 words")
+    expect(() => decodeWords([])).to.throw("the header is missing")
+  })
+})